@@ -0,0 +1,10 @@
+-- Revert the initial schema (drops every table, children first)
+
+DROP TABLE IF EXISTS game_reviews;
+DROP TABLE IF EXISTS user_follows;
+DROP TABLE IF EXISTS game_tag_relations;
+DROP TABLE IF EXISTS game_tags;
+DROP TABLE IF EXISTS chat_messages;
+DROP TABLE IF EXISTS user_game_ratings;
+DROP TABLE IF EXISTS games;
+DROP TABLE IF EXISTS users;
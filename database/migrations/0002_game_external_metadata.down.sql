@@ -0,0 +1,7 @@
+-- Revert the external metadata columns on games
+
+DROP INDEX IF EXISTS idx_games_external_id;
+
+ALTER TABLE games DROP COLUMN updated_at;
+ALTER TABLE games DROP COLUMN cover_url;
+ALTER TABLE games DROP COLUMN external_id;
@@ -0,0 +1,9 @@
+-- Columns written by GameService when importing games from external APIs
+
+ALTER TABLE games ADD COLUMN external_id TEXT;
+ALTER TABLE games ADD COLUMN cover_url TEXT;
+ALTER TABLE games ADD COLUMN updated_at TIMESTAMP;
+
+UPDATE games SET updated_at = created_at WHERE updated_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_games_external_id ON games(external_id);
@@ -0,0 +1,8 @@
+-- Revert library status tracking
+
+DROP INDEX IF EXISTS idx_user_game_ratings_status;
+DROP INDEX IF EXISTS idx_library_status_history_user_id;
+DROP TABLE IF EXISTS library_status_history;
+
+ALTER TABLE user_game_ratings DROP COLUMN finished_at;
+ALTER TABLE user_game_ratings DROP COLUMN started_at;
@@ -0,0 +1,17 @@
+-- Play-status dates on library entries and a log of every status change
+
+ALTER TABLE user_game_ratings ADD COLUMN started_at TIMESTAMP;
+ALTER TABLE user_game_ratings ADD COLUMN finished_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS library_status_history (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    game_id INTEGER NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('played', 'playing', 'want_to_play', 'dropped')),
+    changed_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_status_history_user_id ON library_status_history(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_game_ratings_status ON user_game_ratings(status);
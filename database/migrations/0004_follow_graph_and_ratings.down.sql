@@ -0,0 +1,5 @@
+-- Revert follow graph index and rating dates
+
+ALTER TABLE user_game_ratings DROP COLUMN rated_at;
+
+DROP INDEX IF EXISTS idx_user_follows_followed_id;
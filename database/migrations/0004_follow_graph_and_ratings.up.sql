@@ -0,0 +1,7 @@
+-- Follower lookups for the follow graph and rating dates for the activity feed
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_followed_id ON user_follows(followed_id);
+
+ALTER TABLE user_game_ratings ADD COLUMN rated_at TIMESTAMP;
+
+UPDATE user_game_ratings SET rated_at = updated_at WHERE rating IS NOT NULL;
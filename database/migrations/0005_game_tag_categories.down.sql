@@ -0,0 +1,5 @@
+-- Revert tag categories
+
+DROP INDEX IF EXISTS idx_game_tags_category;
+
+ALTER TABLE game_tags DROP COLUMN category;
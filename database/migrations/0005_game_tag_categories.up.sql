@@ -0,0 +1,5 @@
+-- Tag categories for tags imported from external APIs (genre, theme, keyword)
+
+ALTER TABLE game_tags ADD COLUMN category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_game_tags_category ON game_tags(category);
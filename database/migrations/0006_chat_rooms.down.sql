@@ -0,0 +1,5 @@
+-- Revert per-game chat rooms
+
+DROP INDEX IF EXISTS idx_chat_messages_game_id;
+
+ALTER TABLE chat_messages DROP COLUMN game_id;
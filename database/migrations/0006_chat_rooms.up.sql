@@ -0,0 +1,5 @@
+-- Per-game chat rooms (NULL game_id is the general community room)
+
+ALTER TABLE chat_messages ADD COLUMN game_id INTEGER REFERENCES games (id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_game_id ON chat_messages(game_id, id);
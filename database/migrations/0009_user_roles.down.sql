@@ -0,0 +1,7 @@
+-- Revert user roles
+
+DROP INDEX IF EXISTS idx_users_role;
+
+ALTER TABLE users DROP COLUMN ban_reason;
+ALTER TABLE users DROP COLUMN banned_at;
+ALTER TABLE users DROP COLUMN role;
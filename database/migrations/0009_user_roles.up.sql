@@ -0,0 +1,7 @@
+-- User roles for access control, and account bans
+
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin'));
+ALTER TABLE users ADD COLUMN banned_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN ban_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
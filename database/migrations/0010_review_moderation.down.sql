@@ -0,0 +1,8 @@
+-- Revert review moderation
+
+DROP INDEX IF EXISTS idx_moderation_log_target;
+DROP TABLE IF EXISTS moderation_log;
+DROP INDEX IF EXISTS idx_review_reports_status;
+DROP TABLE IF EXISTS review_reports;
+
+ALTER TABLE game_reviews DROP COLUMN hidden_at;
@@ -0,0 +1,31 @@
+-- Review reports, hidden reviews and an append-only log of moderation actions
+
+ALTER TABLE game_reviews ADD COLUMN hidden_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS review_reports (
+    id SERIAL PRIMARY KEY,
+    review_id INTEGER NOT NULL,
+    reporter_id INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    resolved_at TIMESTAMP,
+    FOREIGN KEY (review_id) REFERENCES game_reviews (id) ON DELETE CASCADE,
+    FOREIGN KEY (reporter_id) REFERENCES users (id) ON DELETE CASCADE,
+    UNIQUE (review_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_status ON review_reports(status, review_id);
+
+-- No foreign keys: entries must outlive the reviews and users they describe
+CREATE TABLE IF NOT EXISTS moderation_log (
+    id SERIAL PRIMARY KEY,
+    moderator_id INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('approve', 'hide', 'delete', 'ban', 'unban')),
+    target_type TEXT NOT NULL CHECK (target_type IN ('review', 'user')),
+    target_id INTEGER NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_target ON moderation_log(target_type, target_id);
@@ -0,0 +1,6 @@
+-- Revert review likes and comments
+
+DROP INDEX IF EXISTS idx_review_comments_parent_id;
+DROP INDEX IF EXISTS idx_review_comments_review_id;
+DROP TABLE IF EXISTS review_comments;
+DROP TABLE IF EXISTS review_likes;
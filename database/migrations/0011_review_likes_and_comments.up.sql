@@ -0,0 +1,26 @@
+-- Review likes and comments (one level of replies)
+
+CREATE TABLE IF NOT EXISTS review_likes (
+    review_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (review_id, user_id),
+    FOREIGN KEY (review_id) REFERENCES game_reviews (id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS review_comments (
+    id SERIAL PRIMARY KEY,
+    review_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    parent_id INTEGER,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (review_id) REFERENCES game_reviews (id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (parent_id) REFERENCES review_comments (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_comments_review_id ON review_comments(review_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_review_comments_parent_id ON review_comments(parent_id);
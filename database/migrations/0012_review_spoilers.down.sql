@@ -0,0 +1,3 @@
+-- Revert the review spoiler flag
+
+ALTER TABLE game_reviews DROP COLUMN contains_spoilers;
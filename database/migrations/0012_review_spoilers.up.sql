@@ -0,0 +1,3 @@
+-- Spoiler flag set by reviewers on reviews revealing plot details
+
+ALTER TABLE game_reviews ADD COLUMN contains_spoilers BOOLEAN NOT NULL DEFAULT FALSE;
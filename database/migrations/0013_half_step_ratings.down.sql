@@ -0,0 +1,12 @@
+-- Revert to integer ratings: 1 to 5 for reviews, 1 to 10 for libraries
+-- Half steps are rounded, review ratings below 1 star become 1
+
+ALTER TABLE game_reviews ADD COLUMN rating_whole INTEGER CHECK (rating_whole BETWEEN 1 AND 5);
+UPDATE game_reviews SET rating_whole = CASE WHEN rating < 2 THEN 1 ELSE ROUND(rating / 2) END;
+ALTER TABLE game_reviews DROP COLUMN rating;
+ALTER TABLE game_reviews RENAME COLUMN rating_whole TO rating;
+
+ALTER TABLE user_game_ratings ADD COLUMN rating_whole INTEGER CHECK (rating_whole >= 1 AND rating_whole <= 10);
+UPDATE user_game_ratings SET rating_whole = CASE WHEN rating < 1 THEN 1 ELSE ROUND(rating) END;
+ALTER TABLE user_game_ratings DROP COLUMN rating;
+ALTER TABLE user_game_ratings RENAME COLUMN rating_whole TO rating;
@@ -0,0 +1,17 @@
+-- Single internal rating scale: 0.5 to 10 in half steps
+-- Review ratings (previously 1 to 5) are doubled, library ratings (already 1 to 10) are kept.
+-- Columns are swapped rather than altered because SQLite can neither change a column type
+-- nor drop a CHECK constraint in place; the swapped review column is therefore nullable,
+-- the API always sets it.
+
+ALTER TABLE game_reviews ADD COLUMN rating_half_steps NUMERIC(3, 1)
+    CHECK (rating_half_steps >= 0.5 AND rating_half_steps <= 10 AND rating_half_steps * 2 = ROUND(rating_half_steps * 2));
+UPDATE game_reviews SET rating_half_steps = rating * 2;
+ALTER TABLE game_reviews DROP COLUMN rating;
+ALTER TABLE game_reviews RENAME COLUMN rating_half_steps TO rating;
+
+ALTER TABLE user_game_ratings ADD COLUMN rating_half_steps NUMERIC(3, 1)
+    CHECK (rating_half_steps >= 0.5 AND rating_half_steps <= 10 AND rating_half_steps * 2 = ROUND(rating_half_steps * 2));
+UPDATE user_game_ratings SET rating_half_steps = rating;
+ALTER TABLE user_game_ratings DROP COLUMN rating;
+ALTER TABLE user_game_ratings RENAME COLUMN rating_half_steps TO rating;
@@ -0,0 +1,3 @@
+-- Revert the per-game rating aggregates
+
+DROP TABLE IF EXISTS game_rating_aggregates;
@@ -0,0 +1,18 @@
+-- Per-game rating aggregates, kept in sync with visible reviews on every review write
+-- so game listings no longer aggregate game_reviews. Games without visible reviews have no row.
+
+CREATE TABLE IF NOT EXISTS game_rating_aggregates (
+    game_id INTEGER PRIMARY KEY,
+    review_count INTEGER NOT NULL DEFAULT 0,
+    rating_sum NUMERIC(10, 1) NOT NULL DEFAULT 0,
+    avg_rating NUMERIC(4, 2) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+);
+
+-- Backfill from the existing reviews
+INSERT INTO game_rating_aggregates (game_id, review_count, rating_sum, avg_rating, updated_at)
+SELECT CAST(game_id AS INTEGER), COUNT(id), SUM(rating), AVG(rating), NOW()
+FROM game_reviews
+WHERE hidden_at IS NULL AND rating IS NOT NULL
+GROUP BY game_id;
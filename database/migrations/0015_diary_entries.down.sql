@@ -0,0 +1,5 @@
+-- Revert the play diary
+
+DROP INDEX IF EXISTS idx_diary_entries_user_game;
+DROP INDEX IF EXISTS idx_diary_entries_user_played_on;
+DROP TABLE IF EXISTS diary_entries;
@@ -0,0 +1,22 @@
+-- Play diary: one entry per play session or completion, any number per game.
+-- A completion logged after an earlier one of the same game is flagged as a replay.
+
+CREATE TABLE IF NOT EXISTS diary_entries (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    game_id INTEGER NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('session', 'completion')),
+    played_on DATE NOT NULL,
+    platform TEXT,
+    hours_played NUMERIC(6, 1) CHECK (hours_played >= 0),
+    rating NUMERIC(3, 1) CHECK (rating >= 0.5 AND rating <= 10 AND rating * 2 = ROUND(rating * 2)),
+    note TEXT,
+    is_replay BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_diary_entries_user_played_on ON diary_entries(user_id, played_on);
+CREATE INDEX IF NOT EXISTS idx_diary_entries_user_game ON diary_entries(user_id, game_id);
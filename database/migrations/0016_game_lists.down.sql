@@ -0,0 +1,8 @@
+-- Revert user-curated game lists
+
+DROP INDEX IF EXISTS idx_game_list_collaborators_user_id;
+DROP INDEX IF EXISTS idx_game_list_entries_list_position;
+DROP INDEX IF EXISTS idx_game_lists_user_id;
+DROP TABLE IF EXISTS game_list_collaborators;
+DROP TABLE IF EXISTS game_list_entries;
+DROP TABLE IF EXISTS game_lists;
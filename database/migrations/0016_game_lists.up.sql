@@ -0,0 +1,43 @@
+-- User-curated game lists, their ordered entries and their collaborators.
+-- Entry positions start at 1 and stay contiguous; they are not unique-constrained
+-- so that a reorder can rewrite them one row at a time inside a transaction.
+
+CREATE TABLE IF NOT EXISTS game_lists (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    is_ranked BOOLEAN NOT NULL DEFAULT FALSE,
+    is_public BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS game_list_entries (
+    id SERIAL PRIMARY KEY,
+    list_id INTEGER NOT NULL,
+    game_id INTEGER NOT NULL,
+    position INTEGER NOT NULL CHECK (position >= 1),
+    note TEXT,
+    added_by INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (list_id, game_id),
+    FOREIGN KEY (list_id) REFERENCES game_lists (id) ON DELETE CASCADE,
+    FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE,
+    FOREIGN KEY (added_by) REFERENCES users (id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS game_list_collaborators (
+    list_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    added_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (list_id, user_id),
+    FOREIGN KEY (list_id) REFERENCES game_lists (id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_lists_user_id ON game_lists(user_id);
+CREATE INDEX IF NOT EXISTS idx_game_list_entries_list_position ON game_list_entries(list_id, position);
+CREATE INDEX IF NOT EXISTS idx_game_list_collaborators_user_id ON game_list_collaborators(user_id);
@@ -0,0 +1,7 @@
+-- Revert full-text game search (PostgreSQL)
+-- The unaccent and pg_trgm extensions are kept, other database objects may use them
+
+DROP INDEX IF EXISTS idx_games_title_trgm;
+DROP INDEX IF EXISTS idx_games_search_vector;
+DROP FUNCTION IF EXISTS game_search_vector(text, text, text);
+DROP FUNCTION IF EXISTS search_fold(text);
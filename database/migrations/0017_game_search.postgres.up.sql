@@ -0,0 +1,21 @@
+-- Full-text game search (PostgreSQL): a weighted tsvector index over titles, developers and
+-- descriptions, folding case and accents, and a trigram index on titles to match them despite typos.
+-- Both are expression indexes, so "SELECT g.*" queries don't return the search vector.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() is only STABLE (its dictionary could change), indexes need an IMMUTABLE function
+CREATE OR REPLACE FUNCTION search_fold(text) RETURNS text AS
+    'SELECT lower(public.unaccent(''public.unaccent'', coalesce($1, '''')))'
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Titles weigh most in the ranking, then developers, then descriptions
+CREATE OR REPLACE FUNCTION game_search_vector(title text, developer text, description text) RETURNS tsvector AS
+    'SELECT setweight(to_tsvector(''simple'', search_fold($1)), ''A'') ||
+        setweight(to_tsvector(''simple'', search_fold($2)), ''B'') ||
+        setweight(to_tsvector(''simple'', search_fold($3)), ''C'')'
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE INDEX IF NOT EXISTS idx_games_search_vector ON games USING GIN (game_search_vector(title, developer, description));
+CREATE INDEX IF NOT EXISTS idx_games_title_trgm ON games USING GIN (search_fold(title) gin_trgm_ops);
@@ -0,0 +1,7 @@
+-- Revert full-text game search (SQLite)
+
+DROP TRIGGER IF EXISTS games_fts_update;
+DROP TRIGGER IF EXISTS games_fts_delete;
+DROP TRIGGER IF EXISTS games_fts_insert;
+DROP TABLE IF EXISTS games_fts_vocab;
+DROP TABLE IF EXISTS games_fts;
@@ -0,0 +1,34 @@
+-- Full-text game search (SQLite): an FTS5 index over titles, developers and descriptions,
+-- folding case and accents, kept in sync with the games table by triggers.
+-- The vocabulary table lists the indexed terms, to correct typos in search queries.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS games_fts USING fts5(
+    title,
+    developer,
+    description,
+    content = 'games',
+    content_rowid = 'id',
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS games_fts_vocab USING fts5vocab(games_fts, 'row');
+
+CREATE TRIGGER IF NOT EXISTS games_fts_insert AFTER INSERT ON games BEGIN
+    INSERT INTO games_fts (rowid, title, developer, description)
+    VALUES (new.id, new.title, new.developer, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS games_fts_delete AFTER DELETE ON games BEGIN
+    INSERT INTO games_fts (games_fts, rowid, title, developer, description)
+    VALUES ('delete', old.id, old.title, old.developer, old.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS games_fts_update AFTER UPDATE OF title, developer, description ON games BEGIN
+    INSERT INTO games_fts (games_fts, rowid, title, developer, description)
+    VALUES ('delete', old.id, old.title, old.developer, old.description);
+    INSERT INTO games_fts (rowid, title, developer, description)
+    VALUES (new.id, new.title, new.developer, new.description);
+END;
+
+-- Index the existing games
+INSERT INTO games_fts (games_fts) VALUES ('rebuild');
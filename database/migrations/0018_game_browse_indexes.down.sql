@@ -0,0 +1,5 @@
+-- Revert the game browser indexes
+
+DROP INDEX IF EXISTS idx_games_publisher;
+DROP INDEX IF EXISTS idx_games_developer;
+DROP INDEX IF EXISTS idx_games_release_date;
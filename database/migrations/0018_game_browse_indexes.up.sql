@@ -0,0 +1,5 @@
+-- Indexes for the game browser (GET /games): release year ranges, developer and publisher filters and facets
+
+CREATE INDEX IF NOT EXISTS idx_games_release_date ON games(release_date);
+CREATE INDEX IF NOT EXISTS idx_games_developer ON games(developer);
+CREATE INDEX IF NOT EXISTS idx_games_publisher ON games(publisher);
@@ -0,0 +1,4 @@
+-- Revert background job runs
+
+DROP INDEX IF EXISTS idx_job_runs_job_name_id;
+DROP TABLE IF EXISTS job_runs;
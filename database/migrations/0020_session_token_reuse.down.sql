@@ -0,0 +1,5 @@
+-- Revert refresh token reuse detection
+
+DROP INDEX IF EXISTS idx_sessions_previous_refresh_token_hash;
+
+ALTER TABLE sessions DROP COLUMN previous_refresh_token_hash;
@@ -0,0 +1,5 @@
+-- Refresh token replaced by the last rotation of each session, so presenting it again can be detected
+
+ALTER TABLE sessions ADD COLUMN previous_refresh_token_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh_token_hash ON sessions(previous_refresh_token_hash);
@@ -0,0 +1,15 @@
+-- Revert derived replays, storing the current flag of every entry again
+
+ALTER TABLE diary_entries ADD COLUMN is_replay BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE diary_entries SET is_replay = COALESCE(replay_override, EXISTS (
+    SELECT 1
+    FROM diary_entries earlier
+    WHERE earlier.user_id = diary_entries.user_id
+      AND earlier.game_id = diary_entries.game_id
+      AND earlier.kind = 'completion'
+      AND (earlier.played_on < diary_entries.played_on
+        OR (earlier.played_on = diary_entries.played_on AND earlier.id < diary_entries.id))
+));
+
+ALTER TABLE diary_entries DROP COLUMN replay_override;
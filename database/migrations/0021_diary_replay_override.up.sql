@@ -0,0 +1,6 @@
+-- Replays are derived when diary entries are read, so they follow edits and deletions of earlier entries.
+-- Only the client's explicit choice is stored; existing flags can't tell it apart from computed ones and are dropped.
+
+ALTER TABLE diary_entries ADD COLUMN replay_override BOOLEAN;
+
+ALTER TABLE diary_entries DROP COLUMN is_replay;
@@ -24,8 +24,8 @@ export const dbConfig = {
   /** Connection timeout in milliseconds */
   connectionTimeout: DATABASE.CONNECTION_TIMEOUT,
   
-  /** Path to the database schema SQL file */
-  schemaPath: DATABASE.SCHEMA_PATH,
+  /** Path to the schema migrations directory */
+  migrationsPath: DATABASE.MIGRATIONS_PATH,
   
   /** Whether to log queries (default: true in development, false in production) */
   logQueries: Deno.env.get("ENVIRONMENT") !== "production",
@@ -0,0 +1,65 @@
+/**
+ * Chat Controller
+ *
+ * Handles HTTP requests related to the community chat:
+ * - Paginated message history of a room
+ * - Message deletion by the author
+ * Live messages are exchanged over the /ws/chat WebSocket.
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import chatService from "../services/chat-service.ts";
+import { broadcastChatMessageDeleted } from "../websockets/chat.ts";
+import { CHAT } from "../config/constants.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { sendCursorPaginated, sendNoContent } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Chat controller class
+ */
+export class ChatController {
+  /**
+   * Get the message history of a room
+   * @param ctx - Oak context
+   */
+  async getMessages(ctx: Context): Promise<void> {
+    const gameIdParam = ctx.request.url.searchParams.get("gameId");
+    const gameId = gameIdParam ? parseInt(gameIdParam) : null;
+
+    if (gameId !== null && isNaN(gameId)) {
+      throw new BadRequestError("Game ID must be a number");
+    }
+
+    const page = getCursorPageRequest(ctx.request.url.searchParams, CHAT.HISTORY_PAGE_SIZE);
+
+    const result = await chatService.getMessages(gameId, page);
+
+    sendCursorPaginated(ctx, { messages: result.items }, result, page.limit);
+  }
+
+  /**
+   * Delete a message written by the current user
+   * @param ctx - Oak context
+   */
+  async deleteMessage(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+    const messageId = parseInt(ctx.params.messageId || "");
+
+    if (!userId || isNaN(messageId)) {
+      throw new BadRequestError("User ID and message ID are required");
+    }
+
+    const message = await chatService.deleteMessage(parseInt(userId), messageId);
+    broadcastChatMessageDeleted(message);
+
+    sendNoContent(ctx);
+  }
+}
+
+// Create and export a singleton instance
+const chatController = new ChatController();
+export default chatController;
@@ -0,0 +1,207 @@
+/**
+ * Diary Controller
+ *
+ * Handles HTTP requests related to play diaries:
+ * - Logging, editing and deleting play sessions and completions
+ * - Browsing a diary by month
+ * - The play history of a game, with its replays
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import diaryService, { DiaryEntry, DiaryEntryInput } from "../services/diary-service.ts";
+import userService from "../services/user-service.ts";
+import { BadRequestError, NotFoundError } from "../utils/errors.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent, sendSuccess } from "../utils/response.ts";
+import { formatRating, getRatingScale, RatingScale, toInternalRating } from "../utils/ratings.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Diary controller class
+ */
+export class DiaryController {
+  /**
+   * Get the current user's diary, or one month of it (?month=YYYY-MM)
+   * @param ctx - Oak context
+   */
+  async getMyDiary(ctx: Context): Promise<void> {
+    await this.sendDiary(ctx, parseInt(ctx.state.user.id));
+  }
+
+  /**
+   * Get another user's diary, or one month of it (?month=YYYY-MM)
+   * @param ctx - Oak context
+   */
+  async getUserDiary(ctx: Context): Promise<void> {
+    await this.sendDiary(ctx, await this.getUserIdParam(ctx));
+  }
+
+  /**
+   * Get the months of the current user's diary
+   * @param ctx - Oak context
+   */
+  async getMyDiaryMonths(ctx: Context): Promise<void> {
+    const months = await diaryService.getMonths(parseInt(ctx.state.user.id));
+
+    sendSuccess(ctx, { months });
+  }
+
+  /**
+   * Get the months of another user's diary
+   * @param ctx - Oak context
+   */
+  async getUserDiaryMonths(ctx: Context): Promise<void> {
+    const months = await diaryService.getMonths(await this.getUserIdParam(ctx));
+
+    sendSuccess(ctx, { months });
+  }
+
+  /**
+   * Get the play history of a game in the current user's diary
+   * @param ctx - Oak context
+   */
+  async getMyGameHistory(ctx: Context): Promise<void> {
+    const gameId = parseInt(ctx.params.gameId || "");
+
+    if (isNaN(gameId)) {
+      throw new BadRequestError("Game ID is required");
+    }
+
+    const scale = getRatingScale(ctx.request.url.searchParams);
+    const history = await diaryService.getGameHistory(parseInt(ctx.state.user.id), gameId);
+
+    sendSuccess(ctx, {
+      history: { ...history, entries: history.entries.map(entry => this.presentEntry(entry, scale)) },
+    });
+  }
+
+  /**
+   * Log a play session or completion in the current user's diary
+   * @param ctx - Oak context
+   */
+  async logEntry(ctx: Context): Promise<void> {
+    const input = ctx.state.validatedData as DiaryEntryInput;
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    const entry = await diaryService.logEntry(parseInt(ctx.state.user.id), {
+      ...input,
+      rating: this.toInternalRating(input.rating, scale),
+    });
+
+    sendCreated(ctx, { entry: this.presentEntry(entry, scale) });
+  }
+
+  /**
+   * Update an entry of the current user's diary
+   * @param ctx - Oak context
+   */
+  async updateEntry(ctx: Context): Promise<void> {
+    const changes = ctx.state.validatedData as Partial<Omit<DiaryEntryInput, "gameId">>;
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    const entry = await diaryService.updateEntry(parseInt(ctx.state.user.id), this.getEntryIdParam(ctx), {
+      ...changes,
+      rating: this.toInternalRating(changes.rating, scale),
+    });
+
+    sendSuccess(ctx, { entry: this.presentEntry(entry, scale) });
+  }
+
+  /**
+   * Delete an entry of the current user's diary
+   * @param ctx - Oak context
+   */
+  async deleteEntry(ctx: Context): Promise<void> {
+    await diaryService.deleteEntry(parseInt(ctx.state.user.id), this.getEntryIdParam(ctx));
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Send a user's diary: one month when ?month= is given, otherwise every entry, paged with cursors
+   * @param ctx - Oak context
+   * @param userId - Owner of the diary
+   */
+  private async sendDiary(ctx: Context, userId: number): Promise<void> {
+    const month = ctx.request.url.searchParams.get("month");
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    if (month) {
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        throw new BadRequestError("Month must be formatted as YYYY-MM");
+      }
+
+      const { entries, summary } = await diaryService.getMonth(userId, month);
+
+      sendSuccess(ctx, { summary, entries: entries.map(entry => this.presentEntry(entry, scale)) });
+      return;
+    }
+
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await diaryService.getEntries(userId, page);
+
+    sendCursorPaginated(ctx, { entries: result.items.map(entry => this.presentEntry(entry, scale)) }, result, page.limit);
+  }
+
+  /**
+   * Get an existing user's ID from the URL params
+   * @param ctx - Oak context
+   * @returns User ID
+   */
+  private async getUserIdParam(ctx: Context): Promise<number> {
+    const userId = parseInt(ctx.params.userId || "");
+
+    if (isNaN(userId)) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    const user = await userService.findById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    return userId;
+  }
+
+  /**
+   * Get the diary entry ID from the URL params
+   * @param ctx - Oak context
+   * @returns Entry ID
+   */
+  private getEntryIdParam(ctx: Context): number {
+    const entryId = parseInt(ctx.params.entryId || "");
+
+    if (isNaN(entryId)) {
+      throw new BadRequestError("Diary entry ID is required");
+    }
+
+    return entryId;
+  }
+
+  /**
+   * Convert an optional submitted rating to the internal scale
+   * @param rating - Rating on the submission scale, null to clear it, undefined to leave it
+   * @param scale - Submission scale
+   * @returns Rating on the internal scale, null or undefined
+   */
+  private toInternalRating(rating: number | null | undefined, scale: RatingScale): number | null | undefined {
+    return rating === null || rating === undefined ? rating : toInternalRating(rating, scale);
+  }
+
+  /**
+   * Present the rating of a diary entry on the requested scale
+   * @param entry - Diary entry with its rating on the internal scale
+   * @param scale - Presentation scale
+   * @returns Diary entry as returned to the client
+   */
+  private presentEntry(entry: DiaryEntry, scale: RatingScale): DiaryEntry {
+    return { ...entry, rating: entry.rating === null ? null : formatRating(entry.rating, scale) };
+  }
+}
+
+// Create and export a singleton instance
+const diaryController = new DiaryController();
+export default diaryController;
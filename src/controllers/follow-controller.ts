@@ -0,0 +1,139 @@
+/**
+ * Follow Controller
+ *
+ * Handles HTTP requests related to the social graph:
+ * - Following and unfollowing users
+ * - Follower and following listings
+ * - The activity feed of the current user
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import followService from "../services/follow-service.ts";
+import feedService from "../services/feed-service.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent } from "../utils/response.ts";
+import { isSpoilerRevealRequested } from "../utils/spoilers.ts";
+import { formatRating, getRatingScale } from "../utils/ratings.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Follow controller class
+ */
+export class FollowController {
+  /**
+   * Follow a user
+   * @param ctx - Oak context
+   */
+  async follow(ctx: Context): Promise<void> {
+    const { followerId, followedId } = this.getFollowPair(ctx);
+
+    await followService.follow(followerId, followedId);
+
+    sendCreated(ctx, { following: true, userId: followedId });
+  }
+
+  /**
+   * Unfollow a user
+   * @param ctx - Oak context
+   */
+  async unfollow(ctx: Context): Promise<void> {
+    const { followerId, followedId } = this.getFollowPair(ctx);
+
+    await followService.unfollow(followerId, followedId);
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Get the followers of a user
+   * @param ctx - Oak context
+   */
+  async getFollowers(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await followService.getFollowers(this.getUserIdParam(ctx), page);
+
+    sendCursorPaginated(ctx, result.items, result, page.limit);
+  }
+
+  /**
+   * Get the users a user follows
+   * @param ctx - Oak context
+   */
+  async getFollowing(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await followService.getFollowing(this.getUserIdParam(ctx), page);
+
+    sendCursorPaginated(ctx, result.items, result, page.limit);
+  }
+
+  /**
+   * Get the activity feed of the current user
+   * @param ctx - Oak context
+   */
+  async getFeed(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+
+    if (!userId) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    const result = await feedService.getFeed(
+      parseInt(userId),
+      page,
+      isSpoilerRevealRequested(ctx.request.url.searchParams)
+    );
+
+    // Review and library ratings share the internal scale
+    const scaledEvents = result.items.map(event => ({
+      ...event,
+      rating: event.rating === null ? null : formatRating(event.rating, scale),
+    }));
+
+    sendCursorPaginated(ctx, { events: scaledEvents }, result, page.limit);
+  }
+
+  /**
+   * Get the current user and the user targeted by a follow request
+   * @param ctx - Oak context
+   * @returns Follower and followed user IDs
+   */
+  private getFollowPair(ctx: Context): { followerId: number; followedId: number } {
+    const followerId = ctx.state.user?.id;
+
+    if (!followerId) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    return {
+      followerId: parseInt(followerId),
+      followedId: this.getUserIdParam(ctx),
+    };
+  }
+
+  /**
+   * Get the user ID from the URL params
+   * @param ctx - Oak context
+   * @returns User ID
+   */
+  private getUserIdParam(ctx: Context): number {
+    const userId = parseInt(ctx.params.userId || "");
+
+    if (isNaN(userId)) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    return userId;
+  }
+}
+
+// Create and export a singleton instance
+const followController = new FollowController();
+export default followController;
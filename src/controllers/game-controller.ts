@@ -8,11 +8,24 @@
  */
 
 import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
-import gameService from "../services/game-service.ts";
+import gameService, {
+  GameBrowseFilters,
+  GameBrowseSort,
+  GameRatingStats,
+  GameReview,
+  GameWithRating,
+  ReviewSort,
+} from "../services/game-service.ts";
 import apiService from "../services/api-service.ts";
+import tagService from "../services/tag-service.ts";
 import { BadRequestError, NotFoundError } from "../utils/errors.ts";
 import logger from "../utils/logger.ts";
-import { sendSuccess, sendCreated, sendNoContent } from "../utils/response.ts";
+import { sendSuccess, sendCreated, sendCursorPaginated, sendNoContent } from "../utils/response.ts";
+import { hasPermission } from "../utils/auth.ts";
+import { REVIEWS } from "../config/constants.ts";
+import { isSpoilerRevealRequested } from "../utils/spoilers.ts";
+import { formatRating, getRatingScale, RatingScale, toInternalRating } from "../utils/ratings.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
 
 // Define the extended Context type with params and state
 type Context = RouterContext<string>;
@@ -21,6 +34,37 @@ type Context = RouterContext<string>;
  * Game controller class
  */
 export class GameController {
+  /**
+   * Browse games with combined filters (see gameBrowseQuerySchema), with facet counts
+   * @param ctx - Oak context
+   */
+  async browseGames(ctx: Context): Promise<void> {
+    const { sort, order, minRating, ...filters } = ctx.state.validatedData as GameBrowseFilters & {
+      sort?: GameBrowseSort;
+      order?: "asc" | "desc";
+    };
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const scale = getRatingScale(ctx.request.url.searchParams);
+    
+    // Titles read alphabetically by default, every other field best first
+    const sortOrder = order ? order.toUpperCase() as "ASC" | "DESC" : sort === "title" ? "ASC" : "DESC";
+    
+    const result = await gameService.browseGames(
+      { ...filters, minRating: minRating === undefined ? undefined : toInternalRating(minRating, scale) },
+      page,
+      sort,
+      sortOrder,
+      scale
+    );
+    
+    sendCursorPaginated(
+      ctx,
+      { games: result.items.map(game => this.presentGame(game, scale)), facets: result.facets },
+      result,
+      page.limit
+    );
+  }
+  
   /**
    * Search for games
    * @param ctx - Oak context
@@ -35,52 +79,40 @@ export class GameController {
       }
       
       // Get pagination parameters
-      const limit = parseInt(ctx.request.url.searchParams.get("limit") || "20");
-      const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
+      const page = getCursorPageRequest(ctx.request.url.searchParams);
+      const tag = ctx.request.url.searchParams.get("tag") || undefined;
+      const scale = getRatingScale(ctx.request.url.searchParams);
       
       // First, search in our database
-      const { games, total } = await gameService.searchGames(query, limit, offset);
-      
-      // If we have enough results, return them
-      if (total >= limit || offset > 0) {
-        sendSuccess(ctx, { games }, 200, {
-          pagination: {
-            total,
-            limit,
-            offset,
-          },
-        });
+      const result = await gameService.searchGames(query, page, tag);
+      const games = result.items.map(game => this.presentGame(game, scale));
+      
+      // If we have enough results, return them (external results cannot be filtered by tag)
+      if (games.length >= page.limit || page.cursor || tag) {
+        sendCursorPaginated(ctx, { games }, result, page.limit);
         return;
       }
       
       // If we don't have enough results, search in the external API
       try {
-        const apiGames = await apiService.searchGames(query, limit - games.length);
+        const apiGames = await apiService.searchGames(query, page.limit - games.length);
         
-        // Combine results, ensuring no duplicates
+        // Combine results, ensuring no duplicates (the whole list fits in this page)
         const existingIds = new Set(games.map(game => game.id));
         const combinedGames = [
           ...games,
           ...apiGames.filter(game => !existingIds.has(game.id)),
         ];
         
-        sendSuccess(ctx, { games: combinedGames }, 200, {
-          pagination: {
-            total: combinedGames.length,
-            limit,
-            offset,
-          },
-        });
+        sendCursorPaginated(ctx, { games: combinedGames }, {
+          next: null,
+          prev: null,
+          total: page.withTotal ? combinedGames.length : undefined,
+        }, page.limit);
       } catch (apiError) {
         // If API search fails, just return database results
         logger.error("API game search failed", apiError);
-        sendSuccess(ctx, { games }, 200, {
-          pagination: {
-            total,
-            limit,
-            offset,
-          },
-        });
+        sendCursorPaginated(ctx, { games }, result, page.limit);
       }
     } catch (error) {
       logger.error("Game search failed", error);
@@ -93,30 +125,55 @@ export class GameController {
    * @param ctx - Oak context
    */
   async getPopularGames(ctx: Context): Promise<void> {
-    try {
-      // Get query parameters
-      const limit = parseInt(ctx.request.url.searchParams.get("limit") || "10");
-      const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
-      const ordering = ctx.request.url.searchParams.get("ordering") || "-metacritic";
-      
-      // Log the request
-      logger.info(`Getting popular games: limit=${limit}, offset=${offset}, ordering=${ordering}`);
-      
-      // Get popular games from database
-      const games = await gameService.getPopularGames(limit, offset, ordering);
-      
-      // Return games
-      ctx.response.body = {
-        games,
-        total: games.length + offset, // This is just a placeholder
-        next: games.length === limit,
-        previous: offset > 0
-      };
-    } catch (error) {
-      logger.error("Error getting popular games:", error);
-      ctx.response.status = 500;
-      ctx.response.body = { error: "Failed to get popular games" };
+    const page = getCursorPageRequest(ctx.request.url.searchParams, 10);
+    const ordering = ctx.request.url.searchParams.get("ordering") || "-metacritic";
+    const scale = getRatingScale(ctx.request.url.searchParams);
+    
+    // Log the request
+    logger.info(`Getting popular games: limit=${page.limit}, ordering=${ordering}`);
+    
+    // Get popular games from database
+    const result = await gameService.getPopularGames(page, ordering);
+    
+    sendCursorPaginated(ctx, { games: result.items.map(game => this.presentGame(game, scale)) }, result, page.limit);
+  }
+  
+  /**
+   * Get the best rated games, ranked by weighted score
+   * @param ctx - Oak context
+   */
+  async getTopRatedGames(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const tag = ctx.request.url.searchParams.get("tag") || undefined;
+    const scale = getRatingScale(ctx.request.url.searchParams);
+    
+    const result = await gameService.getGamesWithRatings(page, "weighted_score", "DESC", { tag });
+    
+    sendCursorPaginated(ctx, { games: result.items.map(game => this.presentGame(game, scale)) }, result, page.limit);
+  }
+  
+  /**
+   * Get the rating distribution of a game
+   * @param ctx - Oak context
+   */
+  async getRatingDistribution(ctx: Context): Promise<void> {
+    const gameId = parseInt(ctx.params.id || "");
+    
+    if (isNaN(gameId)) {
+      throw new BadRequestError("Game ID is required");
     }
+    
+    const scale = getRatingScale(ctx.request.url.searchParams);
+    
+    const histogram = await gameService.getRatingHistogram(gameId, scale);
+    const ratingStats = await gameService.getGameRatingStats(gameId);
+    
+    sendSuccess(ctx, {
+      game_id: gameId,
+      scale,
+      ...this.presentRatingStats(ratingStats, scale),
+      histogram,
+    });
   }
   
   /**
@@ -126,60 +183,40 @@ export class GameController {
   async getRecentGames(ctx: Context): Promise<void> {
     try {
       // Get pagination parameters
-      const limit = parseInt(ctx.request.url.searchParams.get("limit") || "20");
-      const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
-      
-      // Get games with ratings, sorted by release date
-      const { games, total } = await gameService.getGamesWithRatings(
-        limit,
-        offset,
-        "release_date",
-        "DESC"
-      );
+      const page = getCursorPageRequest(ctx.request.url.searchParams);
+      const tag = ctx.request.url.searchParams.get("tag") || undefined;
+      const scale = getRatingScale(ctx.request.url.searchParams);
+      
+      // Get games with a release date and their ratings, sorted by release date
+      const result = await gameService.getGamesWithRatings(page, "release_date", "DESC", { tag, released: true });
+      const recentGames = result.items.map(game => this.presentGame(game, scale));
       
-      // Filter games to only include those with a release date
-      const recentGames = games.filter(game => game.release_date);
-      
-      // If we have enough results, return them
-      if (recentGames.length >= limit || offset > 0) {
-        sendSuccess(ctx, { games: recentGames }, 200, {
-          pagination: {
-            total: recentGames.length,
-            limit,
-            offset,
-          },
-        });
+      // If we have enough results, return them (external results cannot be filtered by tag)
+      if (recentGames.length >= page.limit || page.cursor || tag) {
+        sendCursorPaginated(ctx, { games: recentGames }, result, page.limit);
         return;
       }
       
       // If we don't have enough results, get recent games from the API
       try {
-        const apiGames = await apiService.getRecentGames(limit - recentGames.length);
+        const apiGames = await apiService.getRecentGames(page.limit - recentGames.length);
         
-        // Combine results, ensuring no duplicates
+        // Combine results, ensuring no duplicates (the whole list fits in this page)
         const existingIds = new Set(recentGames.map(game => game.id));
         const combinedGames = [
           ...recentGames,
           ...apiGames.filter(game => !existingIds.has(game.id)),
         ];
         
-        sendSuccess(ctx, { games: combinedGames }, 200, {
-          pagination: {
-            total: combinedGames.length,
-            limit,
-            offset,
-          },
-        });
+        sendCursorPaginated(ctx, { games: combinedGames }, {
+          next: null,
+          prev: null,
+          total: page.withTotal ? combinedGames.length : undefined,
+        }, page.limit);
       } catch (apiError) {
         // If API request fails, just return database results
         logger.error("API recent games request failed", apiError);
-        sendSuccess(ctx, { games: recentGames }, 200, {
-          pagination: {
-            total: recentGames.length,
-            limit,
-            offset,
-          },
-        });
+        sendCursorPaginated(ctx, { games: recentGames }, result, page.limit);
       }
     } catch (error) {
       logger.error("Recent games retrieval failed", error);
@@ -200,6 +237,8 @@ export class GameController {
         throw new BadRequestError("Game ID is required");
       }
       
+      const scale = getRatingScale(ctx.request.url.searchParams);
+      
       // Get game details
       const game = await gameService.getGameById(parseInt(gameId));
       
@@ -207,14 +246,15 @@ export class GameController {
         throw new NotFoundError(`Game with ID ${gameId} not found`);
       }
       
-      // Get rating statistics
+      // Get rating statistics and tags
       const ratingStats = await gameService.getGameRatingStats(game.id);
+      const tags = await tagService.getGameTags(game.id);
       
-      // Combine game and rating stats
+      // Combine game, rating stats and tags
       const gameWithRating = {
         ...game,
-        avg_rating: ratingStats.avg_rating,
-        review_count: ratingStats.review_count,
+        ...this.presentRatingStats(ratingStats, scale),
+        tags,
       };
       
       sendSuccess(ctx, { game: gameWithRating });
@@ -242,25 +282,32 @@ export class GameController {
       }
       
       // Get pagination parameters
-      const limit = parseInt(ctx.request.url.searchParams.get("limit") || "20");
-      const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
+      const page = getCursorPageRequest(ctx.request.url.searchParams);
+      
+      // Get sort order
+      const sort = ctx.request.url.searchParams.get("sort") || REVIEWS.DEFAULT_SORT;
+      const scale = getRatingScale(ctx.request.url.searchParams);
+      
+      if (!REVIEWS.SORT_OPTIONS.includes(sort as ReviewSort)) {
+        throw new BadRequestError(`Sort must be one of: ${REVIEWS.SORT_OPTIONS.join(", ")}`);
+      }
       
       // Get reviews
-      const { reviews, total } = await gameService.getGameReviews(
+      const result = await gameService.getGameReviews(
         parseInt(gameId),
-        limit,
-        offset
+        page,
+        sort as ReviewSort,
+        isSpoilerRevealRequested(ctx.request.url.searchParams)
       );
       
-      sendSuccess(ctx, { reviews }, 200, {
-        pagination: {
-          total,
-          limit,
-          offset,
-        },
-      });
+      sendCursorPaginated(
+        ctx,
+        { reviews: result.items.map(review => this.presentReview(review, scale)) },
+        result,
+        page.limit
+      );
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof BadRequestError) {
         throw error;
       }
       
@@ -289,21 +336,27 @@ export class GameController {
         throw new BadRequestError("Game ID is required");
       }
       
-      // Get request body
+      // Get request body, with the rating on the requested scale
       const body = await ctx.request.body.json();
+      const scale = getRatingScale(ctx.request.url.searchParams);
       
       // Validate required fields
       if (typeof body.rating !== "number" || !body.content) {
         throw new BadRequestError("Rating and content are required");
       }
       
+      if (body.containsSpoilers !== undefined && typeof body.containsSpoilers !== "boolean") {
+        throw new BadRequestError("containsSpoilers must be a boolean");
+      }
+      
       // Create or update review
       const review = await gameService.createOrUpdateReview(
         parseInt(userId),
         parseInt(gameId),
         {
-          rating: body.rating,
+          rating: toInternalRating(body.rating, scale),
           content: body.content,
+          containsSpoilers: body.containsSpoilers,
         }
       );
       
@@ -311,11 +364,11 @@ export class GameController {
       const ratingStats = await gameService.getGameRatingStats(parseInt(gameId));
       
       sendCreated(ctx, {
-        review,
-        game_stats: ratingStats,
+        review: this.presentReview(review, scale),
+        game_stats: this.presentRatingStats(ratingStats, scale),
       });
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof BadRequestError) {
         throw error;
       }
       
@@ -325,7 +378,7 @@ export class GameController {
   }
   
   /**
-   * Delete a review
+   * Delete a review (its author, or a moderator)
    * @param ctx - Oak context
    */
   async deleteReview(ctx: Context): Promise<void> {
@@ -345,7 +398,11 @@ export class GameController {
       }
       
       // Delete review
-      await gameService.deleteReview(parseInt(userId), parseInt(reviewId));
+      await gameService.deleteReview(
+        parseInt(userId),
+        parseInt(reviewId),
+        hasPermission(ctx.state.user, "reviews:moderate")
+      );
       
       sendNoContent(ctx);
     } catch (error) {
@@ -377,28 +434,65 @@ export class GameController {
       }
       
       // Get pagination parameters
-      const limit = parseInt(ctx.request.url.searchParams.get("limit") || "20");
-      const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
+      const page = getCursorPageRequest(ctx.request.url.searchParams);
+      const scale = getRatingScale(ctx.request.url.searchParams);
       
       // Get reviews
-      const { reviews, total } = await gameService.getUserReviews(
+      const result = await gameService.getUserReviews(
         parseInt(userId),
-        limit,
-        offset
+        page,
+        isSpoilerRevealRequested(ctx.request.url.searchParams)
       );
       
-      sendSuccess(ctx, { reviews }, 200, {
-        pagination: {
-          total,
-          limit,
-          offset,
-        },
-      });
+      sendCursorPaginated(
+        ctx,
+        { reviews: result.items.map(review => this.presentReview(review, scale)) },
+        result,
+        page.limit
+      );
     } catch (error) {
       logger.error("User reviews retrieval failed", error);
       throw new BadRequestError("Failed to retrieve user reviews", { error: error.message });
     }
   }
+  
+  /**
+   * Present the average rating of a game on the requested scale
+   * @param game - Game with its average rating on the internal scale
+   * @param scale - Presentation scale
+   * @returns Game as returned to the client
+   */
+  private presentGame<T extends GameWithRating>(game: T, scale: RatingScale): T {
+    return {
+      ...game,
+      avg_rating: formatRating(game.avg_rating, scale),
+      weighted_score: formatRating(game.weighted_score, scale),
+    };
+  }
+  
+  /**
+   * Present the rating statistics of a game on the requested scale
+   * @param stats - Rating statistics on the internal scale
+   * @param scale - Presentation scale
+   * @returns Rating statistics as returned to the client
+   */
+  private presentRatingStats(stats: GameRatingStats, scale: RatingScale): GameRatingStats {
+    return {
+      avg_rating: formatRating(stats.avg_rating, scale),
+      review_count: stats.review_count,
+      weighted_score: formatRating(stats.weighted_score, scale),
+    };
+  }
+  
+  /**
+   * Present the rating of a review on the requested scale
+   * @param review - Review with its rating on the internal scale
+   * @param scale - Presentation scale
+   * @returns Review as returned to the client
+   */
+  private presentReview<T extends GameReview>(review: T, scale: RatingScale): T {
+    return { ...review, rating: formatRating(review.rating, scale) };
+  }
 }
 
 // Create and export a singleton instance
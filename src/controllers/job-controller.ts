@@ -0,0 +1,56 @@
+/**
+ * Job Controller
+ *
+ * Handles HTTP requests related to the background jobs (admins):
+ * - Job status and run history
+ * - Manual runs
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import jobService from "../services/job-service.ts";
+import { sendCursorPaginated, sendSuccess } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Job controller class
+ */
+export class JobController {
+  /**
+   * Get the state of every background job
+   * @param ctx - Oak context
+   */
+  async getJobs(ctx: Context): Promise<void> {
+    const jobs = await jobService.getJobs();
+
+    sendSuccess(ctx, { jobs });
+  }
+
+  /**
+   * Get the runs of a job, newest first
+   * @param ctx - Oak context
+   */
+  async getJobRuns(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await jobService.getRuns(ctx.params.name || "", page);
+
+    sendCursorPaginated(ctx, { runs: result.items }, result, page.limit);
+  }
+
+  /**
+   * Start a run of a job now; the run continues after the response
+   * @param ctx - Oak context
+   */
+  async runJob(ctx: Context): Promise<void> {
+    const run = await jobService.trigger(ctx.params.name || "");
+
+    sendSuccess(ctx, { run }, 202);
+  }
+}
+
+// Create and export a singleton instance
+const jobController = new JobController();
+export default jobController;
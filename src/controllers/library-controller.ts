@@ -0,0 +1,220 @@
+/**
+ * Library Controller
+ *
+ * Handles HTTP requests related to game libraries:
+ * - Adding and removing games from the current user's library
+ * - Play-status changes and personal ratings
+ * - Library listings filtered by status
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import libraryService, { LibraryEntry, LibraryStatus } from "../services/library-service.ts";
+import userService from "../services/user-service.ts";
+import { LIBRARY } from "../config/constants.ts";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors.ts";
+import logger from "../utils/logger.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent, sendSuccess } from "../utils/response.ts";
+import { formatRating, getRatingScale, RatingScale, toInternalRating } from "../utils/ratings.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Library controller class
+ */
+export class LibraryController {
+  /**
+   * Get the current user's library
+   * @param ctx - Oak context
+   */
+  async getMyLibrary(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+
+    if (!userId) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    await this.sendLibrary(ctx, parseInt(userId));
+  }
+
+  /**
+   * Get another user's library
+   * @param ctx - Oak context
+   */
+  async getUserLibrary(ctx: Context): Promise<void> {
+    const userId = parseInt(ctx.params.userId || "");
+
+    if (isNaN(userId)) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    const user = await userService.findById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    await this.sendLibrary(ctx, userId);
+  }
+
+  /**
+   * Get a game from the current user's library, with its status history
+   * @param ctx - Oak context
+   */
+  async getMyLibraryEntry(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+    const gameId = parseInt(ctx.params.gameId || "");
+
+    if (!userId || isNaN(gameId)) {
+      throw new BadRequestError("User ID and game ID are required");
+    }
+
+    const entry = await libraryService.getEntry(parseInt(userId), gameId);
+    if (!entry) {
+      throw new NotFoundError(`Game with ID ${gameId} not found in library`);
+    }
+
+    const history = await libraryService.getStatusHistory(parseInt(userId), gameId);
+
+    sendSuccess(ctx, { entry: this.presentEntry(entry, getRatingScale(ctx.request.url.searchParams)), history });
+  }
+
+  /**
+   * Add a game to the current user's library
+   * @param ctx - Oak context
+   */
+  async addGame(ctx: Context): Promise<void> {
+    try {
+      const userId = ctx.state.user?.id;
+
+      if (!userId) {
+        throw new BadRequestError("User ID is required");
+      }
+
+      const { gameId, status } = ctx.state.validatedData as {
+        gameId: number;
+        status: LibraryStatus;
+      };
+
+      const entry = await libraryService.addGame(parseInt(userId), gameId, status);
+
+      sendCreated(ctx, { entry: this.presentEntry(entry, getRatingScale(ctx.request.url.searchParams)) });
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+
+      logger.error("Adding game to library failed", error);
+      throw new BadRequestError("Failed to add game to library", { error: error.message });
+    }
+  }
+
+  /**
+   * Change the status and/or rating of a game in the current user's library
+   * @param ctx - Oak context
+   */
+  async updateEntry(ctx: Context): Promise<void> {
+    try {
+      const userId = ctx.state.user?.id;
+      const gameId = parseInt(ctx.params.gameId || "");
+
+      if (!userId || isNaN(gameId)) {
+        throw new BadRequestError("User ID and game ID are required");
+      }
+
+      const { status, rating } = ctx.state.validatedData as {
+        status?: LibraryStatus;
+        rating?: number;
+      };
+      const scale = getRatingScale(ctx.request.url.searchParams);
+
+      let entry = await libraryService.getEntry(parseInt(userId), gameId);
+      if (!entry) {
+        throw new NotFoundError(`Game with ID ${gameId} not found in library`);
+      }
+
+      if (status !== undefined) {
+        entry = await libraryService.updateStatus(parseInt(userId), gameId, status);
+      }
+
+      if (rating !== undefined) {
+        entry = await libraryService.updateRating(parseInt(userId), gameId, toInternalRating(rating, scale));
+      }
+
+      sendSuccess(ctx, { entry: this.presentEntry(entry, scale) });
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof BadRequestError) {
+        throw error;
+      }
+
+      logger.error("Library entry update failed", error);
+      throw new BadRequestError("Failed to update library entry", { error: error.message });
+    }
+  }
+
+  /**
+   * Remove a game from the current user's library
+   * @param ctx - Oak context
+   */
+  async removeGame(ctx: Context): Promise<void> {
+    try {
+      const userId = ctx.state.user?.id;
+      const gameId = parseInt(ctx.params.gameId || "");
+
+      if (!userId || isNaN(gameId)) {
+        throw new BadRequestError("User ID and game ID are required");
+      }
+
+      await libraryService.removeGame(parseInt(userId), gameId);
+
+      sendNoContent(ctx);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+
+      logger.error("Removing game from library failed", error);
+      throw new BadRequestError("Failed to remove game from library", { error: error.message });
+    }
+  }
+
+  /**
+   * Send a user's library, honouring the status filter and pagination parameters
+   * @param ctx - Oak context
+   * @param userId - Owner of the library
+   */
+  private async sendLibrary(ctx: Context, userId: number): Promise<void> {
+    const status = ctx.request.url.searchParams.get("status") || undefined;
+
+    if (status && !(LIBRARY.STATUSES as readonly string[]).includes(status)) {
+      throw new BadRequestError(`Status must be one of: ${LIBRARY.STATUSES.join(", ")}`);
+    }
+
+    // Get pagination parameters
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    const result = await libraryService.getLibrary(userId, status as LibraryStatus | undefined, page);
+
+    sendCursorPaginated(
+      ctx,
+      { entries: result.items.map(entry => this.presentEntry(entry, scale)) },
+      result,
+      page.limit
+    );
+  }
+
+  /**
+   * Present the rating of a library entry on the requested scale
+   * @param entry - Library entry with its rating on the internal scale
+   * @param scale - Presentation scale
+   * @returns Library entry as returned to the client
+   */
+  private presentEntry(entry: LibraryEntry, scale: RatingScale): LibraryEntry {
+    return { ...entry, rating: entry.rating === null ? null : formatRating(entry.rating, scale) };
+  }
+}
+
+// Create and export a singleton instance
+const libraryController = new LibraryController();
+export default libraryController;
@@ -0,0 +1,236 @@
+/**
+ * List Controller
+ *
+ * Handles HTTP requests related to user-curated game lists:
+ * - Creating, viewing, editing and deleting lists
+ * - Adding, annotating, moving, removing and reordering games
+ * - Managing the collaborators of a list
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import listService, { GameListInput } from "../services/list-service.ts";
+import userService from "../services/user-service.ts";
+import { BadRequestError, NotFoundError } from "../utils/errors.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent, sendSuccess } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * List controller class
+ */
+export class ListController {
+  /**
+   * Create a list owned by the current user
+   * @param ctx - Oak context
+   */
+  async createList(ctx: Context): Promise<void> {
+    const input = ctx.state.validatedData as GameListInput;
+
+    const list = await listService.createList(parseInt(ctx.state.user.id), input);
+
+    sendCreated(ctx, { list });
+  }
+
+  /**
+   * Get a list with its games and collaborators
+   * @param ctx - Oak context
+   */
+  async getList(ctx: Context): Promise<void> {
+    const list = await listService.getList(this.getIdParam(ctx, "listId"), this.getViewerId(ctx));
+
+    sendSuccess(ctx, { list });
+  }
+
+  /**
+   * Get the lists the current user owns or collaborates on
+   * @param ctx - Oak context
+   */
+  async getMyLists(ctx: Context): Promise<void> {
+    await this.sendUserLists(ctx, parseInt(ctx.state.user.id));
+  }
+
+  /**
+   * Get the public lists of another user
+   * @param ctx - Oak context
+   */
+  async getUserLists(ctx: Context): Promise<void> {
+    const userId = this.getIdParam(ctx, "userId");
+
+    const user = await userService.findById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    await this.sendUserLists(ctx, userId);
+  }
+
+  /**
+   * Edit the details of a list
+   * @param ctx - Oak context
+   */
+  async updateList(ctx: Context): Promise<void> {
+    const changes = ctx.state.validatedData as Partial<GameListInput>;
+
+    const list = await listService.updateList(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      changes
+    );
+
+    sendSuccess(ctx, { list });
+  }
+
+  /**
+   * Delete a list
+   * @param ctx - Oak context
+   */
+  async deleteList(ctx: Context): Promise<void> {
+    await listService.deleteList(parseInt(ctx.state.user.id), this.getIdParam(ctx, "listId"));
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Add a game to a list
+   * @param ctx - Oak context
+   */
+  async addEntry(ctx: Context): Promise<void> {
+    const { gameId, note, position } = ctx.state.validatedData as {
+      gameId: number;
+      note?: string | null;
+      position?: number;
+    };
+
+    const entry = await listService.addEntry(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      gameId,
+      note ?? null,
+      position
+    );
+
+    sendCreated(ctx, { entry });
+  }
+
+  /**
+   * Change the note and/or position of a game in a list
+   * @param ctx - Oak context
+   */
+  async updateEntry(ctx: Context): Promise<void> {
+    const changes = ctx.state.validatedData as { note?: string | null; position?: number };
+
+    const entry = await listService.updateEntry(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      this.getIdParam(ctx, "entryId"),
+      changes
+    );
+
+    sendSuccess(ctx, { entry });
+  }
+
+  /**
+   * Remove a game from a list
+   * @param ctx - Oak context
+   */
+  async removeEntry(ctx: Context): Promise<void> {
+    await listService.removeEntry(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      this.getIdParam(ctx, "entryId")
+    );
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Reorder all the games of a list at once
+   * @param ctx - Oak context
+   */
+  async reorderEntries(ctx: Context): Promise<void> {
+    const { entryIds } = ctx.state.validatedData as { entryIds: number[] };
+
+    const entries = await listService.reorderEntries(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      entryIds
+    );
+
+    sendSuccess(ctx, { entries });
+  }
+
+  /**
+   * Invite a collaborator to a list
+   * @param ctx - Oak context
+   */
+  async addCollaborator(ctx: Context): Promise<void> {
+    const { userId } = ctx.state.validatedData as { userId: number };
+
+    const collaborators = await listService.addCollaborator(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      userId
+    );
+
+    sendCreated(ctx, { collaborators });
+  }
+
+  /**
+   * Remove a collaborator from a list, or leave a list
+   * @param ctx - Oak context
+   */
+  async removeCollaborator(ctx: Context): Promise<void> {
+    await listService.removeCollaborator(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "listId"),
+      this.getIdParam(ctx, "userId")
+    );
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Send the lists of a user visible to the current viewer
+   * @param ctx - Oak context
+   * @param userId - Owner of the lists
+   */
+  private async sendUserLists(ctx: Context, userId: number): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await listService.getUserLists(userId, this.getViewerId(ctx), page);
+
+    sendCursorPaginated(ctx, result.items, result, page.limit);
+  }
+
+  /**
+   * Get the ID of the authenticated viewer, if any
+   * @param ctx - Oak context
+   * @returns User ID or null for anonymous viewers
+   */
+  private getViewerId(ctx: Context): number | null {
+    return ctx.state.user ? parseInt(ctx.state.user.id) : null;
+  }
+
+  /**
+   * Get a numeric ID from the URL params
+   * @param ctx - Oak context
+   * @param name - Param name
+   * @returns ID
+   */
+  private getIdParam(ctx: Context, name: "listId" | "entryId" | "userId"): number {
+    const id = parseInt(ctx.params[name] || "");
+
+    if (isNaN(id)) {
+      const labels = { listId: "List", entryId: "List entry", userId: "User" };
+      throw new BadRequestError(`${labels[name]} ID is required`);
+    }
+
+    return id;
+  }
+}
+
+// Create and export a singleton instance
+const listController = new ListController();
+export default listController;
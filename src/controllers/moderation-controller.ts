@@ -0,0 +1,116 @@
+/**
+ * Moderation Controller
+ *
+ * Handles HTTP requests related to review moderation:
+ * - Review reports from users
+ * - The moderation queue and moderator decisions
+ * - The moderation log
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import moderationService, {
+  ModerationTargetType,
+  ReviewModerationAction,
+} from "../services/moderation-service.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent } from "../utils/response.ts";
+import { formatRating, getRatingScale } from "../utils/ratings.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Moderation controller class
+ */
+export class ModerationController {
+  /**
+   * Report a review to the moderators
+   * @param ctx - Oak context
+   */
+  async reportReview(ctx: Context): Promise<void> {
+    const { reason } = ctx.state.validatedData as { reason: string };
+
+    const report = await moderationService.reportReview(
+      parseInt(ctx.state.user.id),
+      this.getReviewIdParam(ctx),
+      reason
+    );
+
+    sendCreated(ctx, { report });
+  }
+
+  /**
+   * Get the reported reviews waiting for a decision (moderators)
+   * @param ctx - Oak context
+   */
+  async getQueue(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const scale = getRatingScale(ctx.request.url.searchParams);
+
+    const result = await moderationService.getQueue(page);
+
+    sendCursorPaginated(
+      ctx,
+      result.items.map(item => ({ ...item, rating: formatRating(item.rating, scale) })),
+      result,
+      page.limit
+    );
+  }
+
+  /**
+   * Apply a decision to a review (moderators)
+   * @param ctx - Oak context
+   */
+  async moderateReview(ctx: Context): Promise<void> {
+    const { action, reason } = ctx.state.validatedData as {
+      action: ReviewModerationAction;
+      reason?: string;
+    };
+
+    await moderationService.moderateReview(
+      ctx.state.user,
+      this.getReviewIdParam(ctx),
+      action,
+      reason ?? null
+    );
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Get the moderation log (moderators)
+   * @param ctx - Oak context
+   */
+  async getLog(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+    const targetType = ctx.request.url.searchParams.get("targetType") || undefined;
+
+    if (targetType && targetType !== "review" && targetType !== "user") {
+      throw new BadRequestError("Target type must be 'review' or 'user'");
+    }
+
+    const result = await moderationService.getLog(page, targetType as ModerationTargetType | undefined);
+
+    sendCursorPaginated(ctx, result.items, result, page.limit);
+  }
+
+  /**
+   * Get the review ID from the URL params
+   * @param ctx - Oak context
+   * @returns Review ID
+   */
+  private getReviewIdParam(ctx: Context): number {
+    const reviewId = parseInt(ctx.params.reviewId || "");
+
+    if (isNaN(reviewId)) {
+      throw new BadRequestError("Review ID is required");
+    }
+
+    return reviewId;
+  }
+}
+
+// Create and export a singleton instance
+const moderationController = new ModerationController();
+export default moderationController;
@@ -0,0 +1,110 @@
+/**
+ * Review Engagement Controller
+ *
+ * Handles HTTP requests related to interactions with reviews:
+ * - Liking and unliking reviews
+ * - Review comments and replies
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import reviewEngagementService from "../services/review-engagement-service.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { hasPermission } from "../utils/auth.ts";
+import { sendCreated, sendCursorPaginated, sendNoContent, sendSuccess } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Review engagement controller class
+ */
+export class ReviewEngagementController {
+  /**
+   * Like a review
+   * @param ctx - Oak context
+   */
+  async likeReview(ctx: Context): Promise<void> {
+    const reviewId = this.getIdParam(ctx, "reviewId");
+
+    const likeCount = await reviewEngagementService.likeReview(parseInt(ctx.state.user.id), reviewId);
+
+    sendCreated(ctx, { liked: true, reviewId, likeCount });
+  }
+
+  /**
+   * Remove a like from a review
+   * @param ctx - Oak context
+   */
+  async unlikeReview(ctx: Context): Promise<void> {
+    const reviewId = this.getIdParam(ctx, "reviewId");
+
+    const likeCount = await reviewEngagementService.unlikeReview(parseInt(ctx.state.user.id), reviewId);
+
+    sendSuccess(ctx, { liked: false, reviewId, likeCount });
+  }
+
+  /**
+   * Get the comments of a review
+   * @param ctx - Oak context
+   */
+  async getComments(ctx: Context): Promise<void> {
+    const page = getCursorPageRequest(ctx.request.url.searchParams);
+
+    const result = await reviewEngagementService.getComments(this.getIdParam(ctx, "reviewId"), page);
+
+    sendCursorPaginated(ctx, result.items, result, page.limit);
+  }
+
+  /**
+   * Comment on a review, or reply to a comment
+   * @param ctx - Oak context
+   */
+  async addComment(ctx: Context): Promise<void> {
+    const { content, parentId } = ctx.state.validatedData as { content: string; parentId?: number };
+
+    const comment = await reviewEngagementService.addComment(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "reviewId"),
+      content,
+      parentId ?? null
+    );
+
+    sendCreated(ctx, { comment });
+  }
+
+  /**
+   * Delete a comment and its replies (authors and moderators)
+   * @param ctx - Oak context
+   */
+  async deleteComment(ctx: Context): Promise<void> {
+    await reviewEngagementService.deleteComment(
+      parseInt(ctx.state.user.id),
+      this.getIdParam(ctx, "reviewId"),
+      this.getIdParam(ctx, "commentId"),
+      hasPermission(ctx.state.user, "reviews:moderate")
+    );
+
+    sendNoContent(ctx);
+  }
+
+  /**
+   * Get a numeric ID from the URL params
+   * @param ctx - Oak context
+   * @param name - Param name
+   * @returns ID
+   */
+  private getIdParam(ctx: Context, name: "reviewId" | "commentId"): number {
+    const id = parseInt(ctx.params[name] || "");
+
+    if (isNaN(id)) {
+      throw new BadRequestError(`${name === "reviewId" ? "Review" : "Comment"} ID is required`);
+    }
+
+    return id;
+  }
+}
+
+// Create and export a singleton instance
+const reviewEngagementController = new ReviewEngagementController();
+export default reviewEngagementController;
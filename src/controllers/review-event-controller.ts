@@ -0,0 +1,126 @@
+/**
+ * Review Event Controller
+ *
+ * Handles the Server-Sent Events stream of review notifications,
+ * a fallback for clients that cannot open the /ws/reviews WebSocket:
+ * - Topic filtering ("all", "game:<gameId>", "user:<userId>")
+ * - Resuming from the Last-Event-ID header
+ * - Spoiler redaction, unless ?reveal_spoilers=true
+ * - Ratings on the requested scale (?scale=)
+ */
+
+import { RouterContext, ServerSentEvent } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import reviewEventService, {
+  isValidTopic,
+  matchesTopics,
+  NotificationOptions,
+  prepareNotification,
+} from "../services/review-event-service.ts";
+import { REVIEW_NOTIFICATIONS } from "../config/constants.ts";
+import { ReviewNotification } from "../models/review.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import logger from "../utils/logger.ts";
+import { isSpoilerRevealRequested } from "../utils/spoilers.ts";
+import { getRatingScale } from "../utils/ratings.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Review event controller class
+ */
+export class ReviewEventController {
+  /**
+   * Stream review notifications as Server-Sent Events
+   * Events are named after the notification type and carry its eventId as SSE id
+   * @param ctx - Oak context
+   */
+  streamReviews(ctx: Context): void {
+    const topics = this.getTopics(ctx);
+    const since = this.getResumeEventId(ctx);
+    const options: NotificationOptions = {
+      revealSpoilers: isSpoilerRevealRequested(ctx.request.url.searchParams),
+      ratingScale: getRatingScale(ctx.request.url.searchParams),
+    };
+
+    const target = ctx.sendEvents({ keepAlive: REVIEW_NOTIFICATIONS.HEARTBEAT_INTERVAL_MS });
+
+    const send = (notification: ReviewNotification) => {
+      if (matchesTopics(notification, topics)) {
+        target.dispatchEvent(new ServerSentEvent(
+          notification.type,
+          prepareNotification(notification, options),
+          { id: notification.eventId }
+        ));
+      }
+    };
+
+    // Send the events missed since the previous connection
+    if (since !== null) {
+      const { events, complete } = reviewEventService.getEventsSince(since);
+      events.forEach(send);
+
+      target.dispatchEvent(new ServerSentEvent("replay_complete", {
+        since,
+        lastEventId: reviewEventService.getLastEventId(),
+        complete,
+      }));
+    }
+
+    const unsubscribe = reviewEventService.subscribe(send);
+
+    target.addEventListener("close", () => {
+      unsubscribe();
+      logger.debug("Review event stream closed");
+    });
+  }
+
+  /**
+   * Get the topics requested in the query string (?topics=game:12,user:3)
+   * @param ctx - Oak context
+   * @returns Requested topics, the firehose if none
+   * @throws BadRequestError if a topic is invalid or too many are requested
+   */
+  private getTopics(ctx: Context): Set<string> {
+    const topics = (ctx.request.url.searchParams.get("topics") || "")
+      .split(",")
+      .map(topic => topic.trim())
+      .filter(Boolean);
+
+    const invalidTopics = topics.filter(topic => !isValidTopic(topic));
+    if (invalidTopics.length > 0) {
+      throw new BadRequestError(`Invalid topics: ${invalidTopics.join(", ")}`);
+    }
+
+    if (topics.length > REVIEW_NOTIFICATIONS.MAX_TOPICS_PER_CLIENT) {
+      throw new BadRequestError(`Cannot subscribe to more than ${REVIEW_NOTIFICATIONS.MAX_TOPICS_PER_CLIENT} topics`);
+    }
+
+    return new Set(topics.length > 0 ? topics : [REVIEW_NOTIFICATIONS.FIREHOSE_TOPIC]);
+  }
+
+  /**
+   * Get the last event ID received by a reconnecting client
+   * EventSource sends it as the Last-Event-ID header; ?since= is accepted for other clients
+   * @param ctx - Oak context
+   * @returns Event ID, or null for a fresh connection
+   */
+  private getResumeEventId(ctx: Context): number | null {
+    const value = ctx.request.headers.get("Last-Event-ID") || ctx.request.url.searchParams.get("since");
+
+    if (!value) {
+      return null;
+    }
+
+    const eventId = parseInt(value);
+    if (isNaN(eventId) || eventId < 0) {
+      throw new BadRequestError("Last event ID must be a non-negative integer");
+    }
+
+    return eventId;
+  }
+}
+
+// Create and export a singleton instance
+const reviewEventController = new ReviewEventController();
+export default reviewEventController;
@@ -0,0 +1,43 @@
+/**
+ * Tag Controller
+ *
+ * Handles HTTP requests related to the game tag taxonomy:
+ * - Tag listings with game counts
+ */
+
+import { RouterContext } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import tagService, { TagCategory } from "../services/tag-service.ts";
+import { TAGS } from "../config/constants.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { sendCursorPaginated } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+
+// Define the extended Context type with params and state
+type Context = RouterContext<string>;
+
+/**
+ * Tag controller class
+ */
+export class TagController {
+  /**
+   * Get tags with their game counts
+   * @param ctx - Oak context
+   */
+  async getTags(ctx: Context): Promise<void> {
+    const category = ctx.request.url.searchParams.get("category") || undefined;
+
+    if (category && !(TAGS.CATEGORIES as readonly string[]).includes(category)) {
+      throw new BadRequestError(`Category must be one of: ${TAGS.CATEGORIES.join(", ")}`);
+    }
+
+    const page = getCursorPageRequest(ctx.request.url.searchParams, 50);
+
+    const result = await tagService.getTags(category as TagCategory | undefined, page);
+
+    sendCursorPaginated(ctx, { tags: result.items }, result, page.limit);
+  }
+}
+
+// Create and export a singleton instance
+const tagController = new TagController();
+export default tagController;
@@ -3,16 +3,22 @@
  * 
  * Handles HTTP requests related to user operations:
  * - User registration and authentication
+ * - Token refresh and session management
+ * - Email verification and password reset
+ * - Moderation (bans) and role management
  * - User profile management
  * - User data retrieval
  */
 
 import { Context } from "https://deno.land/x/oak@v12.5.0/mod.ts";
 import { AUTH } from "../config/constants.ts";
-import userService from "../services/user-service.ts";
-import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from "../utils/errors.ts";
+import userService, { PublicUser, UserUpdateData } from "../services/user-service.ts";
+import sessionService from "../services/session-service.ts";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from "../utils/errors.ts";
 import logger from "../utils/logger.ts";
-import { sendCreated, sendSuccess, sendNoContent } from "../utils/response.ts";
+import { sendCreated, sendCursorPaginated, sendSuccess, sendNoContent } from "../utils/response.ts";
+import { getCursorPageRequest } from "../utils/pagination.ts";
+import { UserRole } from "../models/user.ts";
 
 /**
  * User controller class
@@ -66,20 +72,24 @@ export class UserController {
         throw new BadRequestError("Username and password are required");
       }
       
-      // Authenticate user
-      const { user, token } = await userService.authenticate(
+      // Authenticate user and open a session for this device
+      const { user, token, refreshToken } = await userService.authenticate(
         body.username,
-        body.password
+        body.password,
+        {
+          userAgent: ctx.request.headers.get("User-Agent"),
+          ipAddress: ctx.request.ip || null,
+        }
       );
       
-      // Set cookie
-      await ctx.cookies.set(AUTH.COOKIE_NAME, token, AUTH.COOKIE_OPTIONS);
+      // Set cookies
+      await this.setAuthCookies(ctx, token, refreshToken);
       
-      // Return user and token
-      sendSuccess(ctx, { user, token });
+      // Return user and tokens
+      sendSuccess(ctx, { user, token, refreshToken });
     } catch (error) {
       // Handle specific errors
-      if (error instanceof UnauthorizedError) {
+      if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
         throw error;
       }
       
@@ -89,17 +99,172 @@ export class UserController {
   }
   
   /**
-   * Logout a user
+   * Exchange a refresh token for a new access token
+   * The refresh token is read from the body or the refresh cookie, and rotated
+   * @param ctx - Oak context
+   */
+  async refresh(ctx: Context): Promise<void> {
+    const body = ctx.request.hasBody ? await ctx.request.body.json() : {};
+    const currentRefreshToken = body.refreshToken || await ctx.cookies.get(AUTH.REFRESH_COOKIE_NAME);
+    
+    if (!currentRefreshToken) {
+      throw new UnauthorizedError("Refresh token required");
+    }
+    
+    const { token, refreshToken } = await userService.refreshTokens(currentRefreshToken);
+    
+    // Set cookies
+    await this.setAuthCookies(ctx, token, refreshToken);
+    
+    sendSuccess(ctx, { token, refreshToken });
+  }
+  
+  /**
+   * Logout a user, revoking the current session
    * @param ctx - Oak context
    */
   async logout(ctx: Context): Promise<void> {
-    // Clear auth cookie
-    await ctx.cookies.delete(AUTH.COOKIE_NAME);
+    const user = ctx.state.user;
+    
+    if (user?.sessionId) {
+      try {
+        await sessionService.revokeSession(parseInt(user.id), user.sessionId);
+      } catch (error) {
+        // Already revoked: logging out still succeeds
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+    
+    // Clear auth cookies
+    await this.clearAuthCookies(ctx);
     
     // Return success
     sendNoContent(ctx);
   }
   
+  /**
+   * Get the active sessions of the current user
+   * @param ctx - Oak context
+   */
+  async getSessions(ctx: Context): Promise<void> {
+    const user = ctx.state.user;
+    
+    if (!user) {
+      throw new UnauthorizedError("Authentication required");
+    }
+    
+    const sessions = await sessionService.getActiveSessions(parseInt(user.id));
+    
+    sendSuccess(ctx, {
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === user.sessionId,
+      })),
+    });
+  }
+  
+  /**
+   * Revoke one of the current user's sessions
+   * @param ctx - Oak context
+   */
+  async revokeSession(ctx: Context): Promise<void> {
+    const user = ctx.state.user;
+    
+    if (!user) {
+      throw new UnauthorizedError("Authentication required");
+    }
+    
+    const sessionId = parseInt(ctx.params.sessionId || "");
+    
+    if (isNaN(sessionId)) {
+      throw new BadRequestError("Session ID is required");
+    }
+    
+    await sessionService.revokeSession(parseInt(user.id), sessionId);
+    
+    // Revoking the current session is a logout
+    if (sessionId === user.sessionId) {
+      await this.clearAuthCookies(ctx);
+    }
+    
+    sendNoContent(ctx);
+  }
+  
+  /**
+   * Revoke every session of the current user ("log out everywhere")
+   * @param ctx - Oak context
+   */
+  async revokeAllSessions(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+    
+    if (!userId) {
+      throw new UnauthorizedError("Authentication required");
+    }
+    
+    const revoked = await sessionService.revokeAllSessions(parseInt(userId));
+    
+    await this.clearAuthCookies(ctx);
+    
+    sendSuccess(ctx, { revoked });
+  }
+  
+  /**
+   * Verify the current user's email address from the emailed token
+   * @param ctx - Oak context
+   */
+  async verifyEmail(ctx: Context): Promise<void> {
+    const { token } = ctx.state.validatedData as { token: string };
+    
+    const user = await userService.verifyEmail(token);
+    
+    sendSuccess(ctx, { user });
+  }
+  
+  /**
+   * Send a new email verification link to the current user
+   * @param ctx - Oak context
+   */
+  async resendEmailVerification(ctx: Context): Promise<void> {
+    const userId = ctx.state.user?.id;
+    
+    if (!userId) {
+      throw new UnauthorizedError("Authentication required");
+    }
+    
+    await userService.requestEmailVerification(parseInt(userId));
+    
+    sendSuccess(ctx, { message: "Verification email sent" }, 202);
+  }
+  
+  /**
+   * Request a password reset link
+   * The response is the same whether or not the email belongs to an account
+   * @param ctx - Oak context
+   */
+  async forgotPassword(ctx: Context): Promise<void> {
+    const { email } = ctx.state.validatedData as { email: string };
+    
+    await userService.requestPasswordReset(email);
+    
+    sendSuccess(ctx, { message: "If an account uses this email, a reset link has been sent" }, 202);
+  }
+  
+  /**
+   * Choose a new password with a reset token
+   * All sessions are revoked, so the user has to log in again
+   * @param ctx - Oak context
+   */
+  async resetPassword(ctx: Context): Promise<void> {
+    const { token, password } = ctx.state.validatedData as { token: string; password: string };
+    
+    await userService.resetPassword(token, password);
+    await this.clearAuthCookies(ctx);
+    
+    sendNoContent(ctx);
+  }
+  
   /**
    * Get current user profile
    * @param ctx - Oak context
@@ -136,14 +301,15 @@ export class UserController {
       throw new UnauthorizedError("Authentication required");
     }
     
-    // Get request body
-    const body = await ctx.request.body.json();
+    const { currentPassword, ...userData } = ctx.state.validatedData as UserUpdateData & { currentPassword: string };
     
     // Update user
-    const user = await userService.updateUser(parseInt(userId), {
-      email: body.email,
-      password: body.password,
-    });
+    const user = await userService.updateOwnAccount(parseInt(userId), userData, currentPassword);
+    
+    // A new password logged out every device, this one included
+    if (userData.password) {
+      await this.clearAuthCookies(ctx);
+    }
     
     // Return updated user
     sendSuccess(ctx, { user });
@@ -168,9 +334,9 @@ export class UserController {
       throw new NotFoundError("User not found");
     }
     
-    // Return user without password
-    const { password, ...userWithoutPassword } = user;
-    sendSuccess(ctx, { user: userWithoutPassword });
+    // Only return the public profile: email, role and moderation fields stay private
+    const profile: PublicUser = { id: user.id, username: user.username, created_at: user.created_at };
+    sendSuccess(ctx, { user: profile });
   }
   
   /**
@@ -179,20 +345,84 @@ export class UserController {
    */
   async getAllUsers(ctx: Context): Promise<void> {
     // Get pagination parameters
-    const limit = parseInt(ctx.request.url.searchParams.get("limit") || "100");
-    const offset = parseInt(ctx.request.url.searchParams.get("offset") || "0");
+    const page = getCursorPageRequest(ctx.request.url.searchParams, 100);
     
     // Get users with pagination
-    const { users, total } = await userService.getAllUsers(limit, offset);
+    const result = await userService.getAllUsers(page);
     
     // Return users with pagination metadata
-    sendSuccess(ctx, { users }, 200, {
-      pagination: {
-        total,
-        limit,
-        offset,
-      },
-    });
+    sendCursorPaginated(ctx, { users: result.items }, result, page.limit);
+  }
+  
+  /**
+   * Ban a user (moderators and admins)
+   * @param ctx - Oak context
+   */
+  async banUser(ctx: Context): Promise<void> {
+    const { reason } = ctx.state.validatedData as { reason: string };
+    
+    const user = await userService.banUser(ctx.state.user, this.getUserIdParam(ctx), reason);
+    
+    sendSuccess(ctx, { user });
+  }
+  
+  /**
+   * Lift a user's ban (moderators and admins)
+   * @param ctx - Oak context
+   */
+  async unbanUser(ctx: Context): Promise<void> {
+    const reason = ctx.request.url.searchParams.get("reason") || null;
+    
+    const user = await userService.unbanUser(ctx.state.user, this.getUserIdParam(ctx), reason);
+    
+    sendSuccess(ctx, { user });
+  }
+  
+  /**
+   * Change a user's role (admins)
+   * @param ctx - Oak context
+   */
+  async updateUserRole(ctx: Context): Promise<void> {
+    const { role } = ctx.state.validatedData as { role: UserRole };
+    
+    const user = await userService.setRole(ctx.state.user, this.getUserIdParam(ctx), role);
+    
+    sendSuccess(ctx, { user });
+  }
+  
+  /**
+   * Get the user ID from the URL params
+   * @param ctx - Oak context
+   * @returns User ID
+   */
+  private getUserIdParam(ctx: Context): number {
+    const userId = parseInt(ctx.params.id || "");
+    
+    if (isNaN(userId)) {
+      throw new BadRequestError("User ID is required");
+    }
+    
+    return userId;
+  }
+  
+  /**
+   * Set the access and refresh token cookies
+   * @param ctx - Oak context
+   * @param token - Access token
+   * @param refreshToken - Refresh token
+   */
+  private async setAuthCookies(ctx: Context, token: string, refreshToken: string): Promise<void> {
+    await ctx.cookies.set(AUTH.COOKIE_NAME, token, AUTH.COOKIE_OPTIONS);
+    await ctx.cookies.set(AUTH.REFRESH_COOKIE_NAME, refreshToken, AUTH.REFRESH_COOKIE_OPTIONS);
+  }
+  
+  /**
+   * Clear the access and refresh token cookies
+   * @param ctx - Oak context
+   */
+  private async clearAuthCookies(ctx: Context): Promise<void> {
+    await ctx.cookies.delete(AUTH.COOKIE_NAME);
+    await ctx.cookies.delete(AUTH.REFRESH_COOKIE_NAME, { path: AUTH.REFRESH_COOKIE_OPTIONS.path });
   }
 }
 
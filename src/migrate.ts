@@ -0,0 +1,78 @@
+/**
+ * Database Migration CLI
+ *
+ * This script applies or reverts the numbered schema migrations
+ * in database/migrations against the configured database.
+ *
+ * Usage:
+ *   deno task migrate up [--to <version>]
+ *   deno task migrate down [--steps <count>]
+ *   deno task migrate status
+ */
+
+import { Command } from "https://deno.land/x/cliffy@v1.0.0-rc.3/command/mod.ts";
+import { load } from "https://deno.land/std@0.207.0/dotenv/mod.ts";
+import db from "./services/database-service.ts";
+import migrationService from "./services/migration-service.ts";
+import logger from "./utils/logger.ts";
+
+// Load environment variables
+try {
+  const envFilePath = Deno.env.get("ENV_FILE") || ".env";
+  await load({ envPath: envFilePath });
+} catch (error) {
+  logger.warn(`Failed to load environment variables: ${error.message}`);
+}
+
+/**
+ * Run a migration command against an initialized database connection
+ * @param action - Command to run
+ */
+async function withDatabase(action: () => Promise<void>): Promise<void> {
+  try {
+    await db.initialize();
+    await action();
+  } catch (error) {
+    logger.fatal("Migration command failed", error);
+    Deno.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+await new Command()
+  .name("migrate")
+  .description("Manage the database schema migrations")
+  .action(function () {
+    this.showHelp();
+  })
+  .command("up", "Apply pending migrations")
+  .option("--to <version:integer>", "Highest migration version to apply")
+  .action(({ to }) =>
+    withDatabase(async () => {
+      const applied = await migrationService.up(to);
+      for (const migration of applied) {
+        console.log(`Applied   ${migration.version}_${migration.name}`);
+      }
+    })
+  )
+  .command("down", "Revert the most recently applied migrations")
+  .option("--steps <count:integer>", "Number of migrations to revert", { default: 1 })
+  .action(({ steps }) =>
+    withDatabase(async () => {
+      const reverted = await migrationService.down(steps);
+      for (const migration of reverted) {
+        console.log(`Reverted  ${migration.version}_${migration.name}`);
+      }
+    })
+  )
+  .command("status", "List migrations and whether they are applied")
+  .action(() =>
+    withDatabase(async () => {
+      for (const migration of await migrationService.getStatus()) {
+        const state = migration.applied ? `applied ${migration.applied_at}` : "pending";
+        console.log(`${String(migration.version).padStart(4, "0")}_${migration.name}  ${state}`);
+      }
+    })
+  )
+  .parse(Deno.args);
@@ -55,7 +55,7 @@ export interface GameResponse {
 export interface GameRating {
   /** Unique identifier for the game */
   gameId: string;
-  /** Average rating of the game (1.0 to 5.0) */
+  /** Average rating of the game, to one decimal (internal scale until presented, see utils/ratings.ts) */
   averageRating: string;
   /** Number of ratings for the game */
   ratingCount: number;
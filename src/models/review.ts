@@ -5,6 +5,8 @@
  * It provides type safety for review data throughout the application.
  */
 
+import { GameRating } from "./game.ts";
+
 /**
  * Represents a game review in the database
  */
@@ -15,10 +17,12 @@ export interface Review {
   gameId: string;
   /** ID of the user who wrote the review */
   userId: number;
-  /** Rating value (1-5) */
+  /** Rating value (0.5 to 10, see utils/ratings.ts) */
   rating: number;
   /** Text content of the review */
   content: string;
+  /** Whether the reviewer flagged the review as containing spoilers */
+  containsSpoilers: boolean;
   /** Date when the review was created */
   createdAt: Date;
   /** Date when the review was last updated */
@@ -37,10 +41,14 @@ export interface ReviewResponse {
   userId: number;
   /** Username of the user who wrote the review */
   username: string;
-  /** Rating value (1-5) */
+  /** Rating value (internal scale until presented, see utils/ratings.ts) */
   rating: number;
   /** Text content of the review */
   content: string;
+  /** Whether the reviewer flagged the review as containing spoilers */
+  containsSpoilers: boolean;
+  /** Whether spoilers were removed from the content */
+  spoilersRedacted?: boolean;
   /** Optional game title information */
   gameTitle?: string;
   /** Optional game cover URL */
@@ -65,10 +73,12 @@ export interface ReviewsResponse {
 export interface ReviewCreationData {
   /** ID of the game being reviewed */
   gameId: string;
-  /** Rating value (1-5) */
+  /** Rating value, on the scale chosen by the client (?scale=) */
   rating: number;
   /** Text content of the review */
   content: string;
+  /** Whether the review contains spoilers (defaults to false) */
+  containsSpoilers?: boolean;
   /** Optional game title (for notifications) */
   gameTitle?: string;
   /** Optional game cover URL (for notifications) */
@@ -79,20 +89,26 @@ export interface ReviewCreationData {
  * Data required to update an existing review
  */
 export interface ReviewUpdateData {
-  /** Rating value (1-5) */
+  /** Rating value, on the scale chosen by the client (?scale=) */
   rating?: number;
   /** Text content of the review */
   content?: string;
+  /** Whether the review contains spoilers */
+  containsSpoilers?: boolean;
 }
 
 /**
- * WebSocket notification for a new review
+ * WebSocket notification for a review change
  */
 export interface ReviewNotification {
+  /** Monotonically increasing event identifier, used to resume after a reconnection */
+  eventId: number;
   /** Type of notification */
   type: 'new_review' | 'updated_review' | 'deleted_review';
   /** ID of the game being reviewed */
   gameId: string;
-  /** Review data */
+  /** Review data (the last known state for deleted reviews) */
   review: ReviewResponse;
+  /** Aggregate rating of the game after the change */
+  gameRating: GameRating;
 } 
\ No newline at end of file
@@ -5,6 +5,13 @@
  * It provides type safety for user data throughout the application.
  */
 
+import { ROLES } from "../config/constants.ts";
+
+/**
+ * Role of a user, granting access to moderation and administration features
+ */
+export type UserRole = typeof ROLES.LIST[number];
+
 /**
  * Represents a user in the database
  */
@@ -17,6 +24,10 @@ export interface User {
   email: string;
   /** Hashed password for the user (never exposed in API responses) */
   passwordHash: string;
+  /** Role of the user */
+  role: UserRole;
+  /** Date when the account was banned, if it is */
+  bannedAt?: Date;
   /** Date when the user account was created */
   createdAt: Date;
   /** Date when the user account was last updated */
@@ -37,6 +48,8 @@ export interface UserResponse {
   username: string;
   /** Unique email address for the user */
   email: string;
+  /** Role of the user */
+  role: UserRole;
   /** Date when the user account was created */
   createdAt: string;
   /** Date when the user account was last updated */
@@ -0,0 +1,41 @@
+/**
+ * Rating Aggregates Rebuild CLI
+ *
+ * This script recomputes the materialized per-game rating aggregates
+ * from the visible reviews, to backfill them or repair them after
+ * reviews were edited outside the API.
+ *
+ * Usage:
+ *   deno task rebuild-aggregates
+ */
+
+import { Command } from "https://deno.land/x/cliffy@v1.0.0-rc.3/command/mod.ts";
+import { load } from "https://deno.land/std@0.207.0/dotenv/mod.ts";
+import db from "./services/database-service.ts";
+import ratingAggregateService from "./services/rating-aggregate-service.ts";
+import logger from "./utils/logger.ts";
+
+// Load environment variables
+try {
+  const envFilePath = Deno.env.get("ENV_FILE") || ".env";
+  await load({ envPath: envFilePath });
+} catch (error) {
+  logger.warn(`Failed to load environment variables: ${error.message}`);
+}
+
+await new Command()
+  .name("rebuild-aggregates")
+  .description("Recompute the per-game rating aggregates from the reviews")
+  .action(async () => {
+    try {
+      await db.initialize();
+      const count = await ratingAggregateService.rebuild();
+      console.log(`Rebuilt rating aggregates of ${count} games`);
+    } catch (error) {
+      logger.fatal("Rating aggregates rebuild failed", error);
+      Deno.exitCode = 1;
+    } finally {
+      await db.close();
+    }
+  })
+  .parse(Deno.args);
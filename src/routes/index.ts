@@ -8,15 +8,45 @@
 import { Router } from "https://deno.land/x/oak@v12.5.0/mod.ts";
 import userController from "../controllers/user-controller.ts";
 import gameController from "../controllers/game-controller.ts";
-import { authMiddleware, optionalAuthMiddleware } from "../utils/auth.ts";
+import libraryController from "../controllers/library-controller.ts";
+import followController from "../controllers/follow-controller.ts";
+import tagController from "../controllers/tag-controller.ts";
+import chatController from "../controllers/chat-controller.ts";
+import reviewEventController from "../controllers/review-event-controller.ts";
+import moderationController from "../controllers/moderation-controller.ts";
+import reviewEngagementController from "../controllers/review-engagement-controller.ts";
+import diaryController from "../controllers/diary-controller.ts";
+import listController from "../controllers/list-controller.ts";
+import jobController from "../controllers/job-controller.ts";
+import { authMiddleware, optionalAuthMiddleware, requirePermission, requireRole } from "../utils/auth.ts";
 import { validateRequest } from "../utils/validation.ts";
 import { 
   userRegistrationSchema, 
   userLoginSchema,
+  emailVerificationSchema,
+  passwordForgotSchema,
+  passwordResetSchema,
+  userUpdateSchema,
+  userBanSchema,
+  userRoleSchema,
   reviewCreationSchema,
   reviewUpdateSchema,
+  gameBrowseQuerySchema,
   gameIdParamSchema,
-  reviewIdParamSchema
+  reviewIdParamSchema,
+  reviewCommentSchema,
+  reviewReportSchema,
+  reviewModerationSchema,
+  libraryEntrySchema,
+  libraryEntryUpdateSchema,
+  diaryEntrySchema,
+  diaryEntryUpdateSchema,
+  gameListSchema,
+  gameListUpdateSchema,
+  gameListEntrySchema,
+  gameListEntryUpdateSchema,
+  gameListOrderSchema,
+  gameListCollaboratorSchema
 } from "../utils/validation.ts";
 
 // Create router
@@ -30,24 +60,103 @@ router.get("/health", (ctx) => {
 // User routes
 router.post("/users/register", validateRequest(userRegistrationSchema), userController.register.bind(userController));
 router.post("/users/login", validateRequest(userLoginSchema), userController.login.bind(userController));
-router.post("/users/logout", userController.logout.bind(userController));
+router.post("/users/refresh", userController.refresh.bind(userController));
+router.post("/users/logout", optionalAuthMiddleware, userController.logout.bind(userController));
 router.get("/users/me", authMiddleware, userController.getCurrentUser.bind(userController));
-router.patch("/users/me", authMiddleware, userController.updateCurrentUser.bind(userController));
+router.patch("/users/me", authMiddleware, validateRequest(userUpdateSchema), userController.updateCurrentUser.bind(userController));
+router.post("/users/email/verify", validateRequest(emailVerificationSchema), userController.verifyEmail.bind(userController));
+router.post("/users/email/verification", authMiddleware, userController.resendEmailVerification.bind(userController));
+router.post("/users/password/forgot", validateRequest(passwordForgotSchema), userController.forgotPassword.bind(userController));
+router.post("/users/password/reset", validateRequest(passwordResetSchema), userController.resetPassword.bind(userController));
+router.get("/users/sessions", authMiddleware, userController.getSessions.bind(userController));
+router.delete("/users/sessions", authMiddleware, userController.revokeAllSessions.bind(userController));
+router.delete("/users/sessions/:sessionId", authMiddleware, userController.revokeSession.bind(userController));
 router.get("/users/:id", userController.getUserById.bind(userController));
-router.get("/users", authMiddleware, userController.getAllUsers.bind(userController));
+router.get("/users", authMiddleware, requireRole("admin"), userController.getAllUsers.bind(userController));
+router.post("/users/:id/ban", authMiddleware, requirePermission("users:ban"), validateRequest(userBanSchema), userController.banUser.bind(userController));
+router.delete("/users/:id/ban", authMiddleware, requirePermission("users:ban"), userController.unbanUser.bind(userController));
+router.patch("/users/:id/role", authMiddleware, requirePermission("users:manage_roles"), validateRequest(userRoleSchema), userController.updateUserRole.bind(userController));
 
 // Game routes
+router.get("/games", validateRequest(gameBrowseQuerySchema, "query"), gameController.browseGames.bind(gameController));
 router.get("/games/search", gameController.searchGames.bind(gameController));
 router.get("/games/popular", gameController.getPopularGames.bind(gameController));
 router.get("/games/recent", gameController.getRecentGames.bind(gameController));
+router.get("/games/top-rated", gameController.getTopRatedGames.bind(gameController));
 router.get("/games/:id", validateRequest(gameIdParamSchema, "params"), gameController.getGameById.bind(gameController));
+router.get("/games/:id/ratings", validateRequest(gameIdParamSchema, "params"), gameController.getRatingDistribution.bind(gameController));
 router.get("/games/:gameId/reviews", validateRequest(gameIdParamSchema, "params"), gameController.getGameReviews.bind(gameController));
 router.post("/games/:gameId/reviews", authMiddleware, validateRequest(gameIdParamSchema, "params"), validateRequest(reviewCreationSchema), gameController.createOrUpdateReview.bind(gameController));
 router.delete("/reviews/:reviewId", authMiddleware, validateRequest(reviewIdParamSchema, "params"), gameController.deleteReview.bind(gameController));
+router.post("/reviews/:reviewId/like", authMiddleware, reviewEngagementController.likeReview.bind(reviewEngagementController));
+router.delete("/reviews/:reviewId/like", authMiddleware, reviewEngagementController.unlikeReview.bind(reviewEngagementController));
+router.get("/reviews/:reviewId/comments", reviewEngagementController.getComments.bind(reviewEngagementController));
+router.post("/reviews/:reviewId/comments", authMiddleware, validateRequest(reviewCommentSchema), reviewEngagementController.addComment.bind(reviewEngagementController));
+router.delete("/reviews/:reviewId/comments/:commentId", authMiddleware, reviewEngagementController.deleteComment.bind(reviewEngagementController));
+router.post("/reviews/:reviewId/report", authMiddleware, validateRequest(reviewReportSchema), moderationController.reportReview.bind(moderationController));
+
+// Moderation routes
+router.get("/moderation/reviews", authMiddleware, requirePermission("reviews:moderate"), moderationController.getQueue.bind(moderationController));
+router.post("/moderation/reviews/:reviewId", authMiddleware, requirePermission("reviews:moderate"), validateRequest(reviewModerationSchema), moderationController.moderateReview.bind(moderationController));
+router.get("/moderation/log", authMiddleware, requirePermission("reviews:moderate"), moderationController.getLog.bind(moderationController));
+
+// Tag routes
+router.get("/tags", tagController.getTags.bind(tagController));
+
+// Review notification stream (Server-Sent Events fallback for /ws/reviews)
+router.get("/events/reviews", reviewEventController.streamReviews.bind(reviewEventController));
+
+// Chat routes
+router.get("/chat/messages", chatController.getMessages.bind(chatController));
+router.delete("/chat/messages/:messageId", authMiddleware, chatController.deleteMessage.bind(chatController));
 
 // User reviews routes
 router.get("/users/:userId/reviews", gameController.getUserReviews.bind(gameController));
 router.get("/users/me/reviews", authMiddleware, gameController.getUserReviews.bind(gameController));
 
+// Library routes
+router.get("/users/me/library", authMiddleware, libraryController.getMyLibrary.bind(libraryController));
+router.post("/users/me/library", authMiddleware, validateRequest(libraryEntrySchema), libraryController.addGame.bind(libraryController));
+router.get("/users/me/library/:gameId", authMiddleware, libraryController.getMyLibraryEntry.bind(libraryController));
+router.patch("/users/me/library/:gameId", authMiddleware, validateRequest(libraryEntryUpdateSchema), libraryController.updateEntry.bind(libraryController));
+router.delete("/users/me/library/:gameId", authMiddleware, libraryController.removeGame.bind(libraryController));
+router.get("/users/:userId/library", libraryController.getUserLibrary.bind(libraryController));
+
+// Diary routes
+router.get("/users/me/diary", authMiddleware, diaryController.getMyDiary.bind(diaryController));
+router.post("/users/me/diary", authMiddleware, validateRequest(diaryEntrySchema), diaryController.logEntry.bind(diaryController));
+router.get("/users/me/diary/months", authMiddleware, diaryController.getMyDiaryMonths.bind(diaryController));
+router.get("/users/me/diary/games/:gameId", authMiddleware, diaryController.getMyGameHistory.bind(diaryController));
+router.patch("/users/me/diary/:entryId", authMiddleware, validateRequest(diaryEntryUpdateSchema), diaryController.updateEntry.bind(diaryController));
+router.delete("/users/me/diary/:entryId", authMiddleware, diaryController.deleteEntry.bind(diaryController));
+router.get("/users/:userId/diary", diaryController.getUserDiary.bind(diaryController));
+router.get("/users/:userId/diary/months", diaryController.getUserDiaryMonths.bind(diaryController));
+
+// Game list routes
+router.post("/lists", authMiddleware, validateRequest(gameListSchema), listController.createList.bind(listController));
+router.get("/lists/:listId", optionalAuthMiddleware, listController.getList.bind(listController));
+router.patch("/lists/:listId", authMiddleware, validateRequest(gameListUpdateSchema), listController.updateList.bind(listController));
+router.delete("/lists/:listId", authMiddleware, listController.deleteList.bind(listController));
+router.post("/lists/:listId/entries", authMiddleware, validateRequest(gameListEntrySchema), listController.addEntry.bind(listController));
+router.put("/lists/:listId/entries/order", authMiddleware, validateRequest(gameListOrderSchema), listController.reorderEntries.bind(listController));
+router.patch("/lists/:listId/entries/:entryId", authMiddleware, validateRequest(gameListEntryUpdateSchema), listController.updateEntry.bind(listController));
+router.delete("/lists/:listId/entries/:entryId", authMiddleware, listController.removeEntry.bind(listController));
+router.post("/lists/:listId/collaborators", authMiddleware, validateRequest(gameListCollaboratorSchema), listController.addCollaborator.bind(listController));
+router.delete("/lists/:listId/collaborators/:userId", authMiddleware, listController.removeCollaborator.bind(listController));
+router.get("/users/me/lists", authMiddleware, listController.getMyLists.bind(listController));
+router.get("/users/:userId/lists", optionalAuthMiddleware, listController.getUserLists.bind(listController));
+
+// Follow and feed routes
+router.get("/users/me/feed", authMiddleware, followController.getFeed.bind(followController));
+router.post("/users/:userId/follow", authMiddleware, followController.follow.bind(followController));
+router.delete("/users/:userId/follow", authMiddleware, followController.unfollow.bind(followController));
+router.get("/users/:userId/followers", followController.getFollowers.bind(followController));
+router.get("/users/:userId/following", followController.getFollowing.bind(followController));
+
+// Background job routes
+router.get("/admin/jobs", authMiddleware, requirePermission("jobs:manage"), jobController.getJobs.bind(jobController));
+router.get("/admin/jobs/:name/runs", authMiddleware, requirePermission("jobs:manage"), jobController.getJobRuns.bind(jobController));
+router.post("/admin/jobs/:name/run", authMiddleware, requirePermission("jobs:manage"), jobController.runJob.bind(jobController));
+
 // Export router
 export default router; 
\ No newline at end of file
@@ -3,7 +3,10 @@ import { Router } from "https://deno.land/x/oak@v17.1.4/mod.ts";
 import { executeQuery, executeQueryAndReturnId, executeQueryAndReturnResults } from "../database.ts";
 import { verify } from "https://deno.land/x/djwt@v3.0.0/mod.ts";
 import { getJwtSecret } from "./auth.ts";
-import { broadcastReviewNotification } from "../websockets/reviews.ts";
+import reviewEventService from "../services/review-event-service.ts";
+import ratingAggregateService from "../services/rating-aggregate-service.ts";
+import { isSpoilerRevealRequested, redactSpoilers } from "../utils/spoilers.ts";
+import { formatRating, getRatingScale, toInternalRating } from "../utils/ratings.ts";
 import { DB } from "https://deno.land/x/sqlite@v3.7.0/mod.ts";
 
 const router = new Router();
@@ -66,26 +69,37 @@ router.get("/game/:id", async (ctx) => {
     try {
       // Simple query to get reviews
       const query = `
-        SELECT r.id, r.game_id, r.user_id, u.username, r.rating, r.content, r.created_at
+        SELECT r.id, r.game_id, r.user_id, u.username, r.rating, r.content, r.created_at, r.contains_spoilers
         FROM game_reviews r
         LEFT JOIN users u ON r.user_id = u.id
-        WHERE r.game_id = ?
+        WHERE r.game_id = ? AND r.hidden_at IS NULL
         ORDER BY r.created_at DESC
       `;
       
       const results = [...db.query(query, [gameId])];
       console.log(`[REVIEWS] Direct query found ${results.length} reviews for game ${gameId}`);
       
-      // Format the reviews
-      const reviews = results.map(row => ({
-        id: row[0],
-        gameId: String(row[1]),
-        userId: row[2],
-        username: row[3] || 'Unknown User',
-        rating: row[4],
-        content: row[5],
-        createdAt: row[6]
-      }));
+      // Format the reviews, redacting spoilers unless ?reveal_spoilers=true
+      const revealSpoilers = isSpoilerRevealRequested(ctx.request.url.searchParams);
+      const scale = getRatingScale(ctx.request.url.searchParams);
+      const reviews = results.map(row => {
+        const containsSpoilers = Boolean(row[7]);
+        const { content, redacted } = revealSpoilers
+          ? { content: String(row[5]), redacted: false }
+          : redactSpoilers(String(row[5]), containsSpoilers);
+
+        return {
+          id: row[0],
+          gameId: String(row[1]),
+          userId: row[2],
+          username: row[3] || 'Unknown User',
+          rating: formatRating(Number(row[4]), scale),
+          content,
+          containsSpoilers,
+          spoilersRedacted: redacted,
+          createdAt: row[6]
+        };
+      });
       
       // Close the database connection
       db.close();
@@ -119,6 +133,7 @@ router.post("/", async (ctx) => {
     // Parse request body
     const body = await ctx.request.body.json();
     const { gameId, content, rating, gameTitle, gameCoverUrl } = body;
+    const containsSpoilers = body.containsSpoilers === true;
     
     console.log(`[REVIEWS] Adding review for game ${gameId} by user ${user.id}`);
     console.log(`[REVIEWS] Review content: "${content}", rating: ${rating}`);
@@ -134,8 +149,12 @@ router.post("/", async (ctx) => {
       return;
     }
     
-    if (!rating || rating < 1 || rating > 5) {
-      setJsonResponse(ctx, 400, { error: "Rating must be between 1 and 5" });
+    // Ratings are submitted on the requested scale (?scale=) and stored on the internal scale
+    let internalRating: number;
+    try {
+      internalRating = toInternalRating(Number(rating), getRatingScale(ctx.request.url.searchParams));
+    } catch (error) {
+      setJsonResponse(ctx, 400, { error: error.message });
       return;
     }
     
@@ -148,34 +167,36 @@ router.post("/", async (ctx) => {
     const checkResult = await executeQuery(checkQuery, [gameId, user.id]);
     
     let reviewId;
+    const isUpdate = Boolean(checkResult.rows && checkResult.rows.length > 0);
     
     // If user already has a review, update it instead of inserting a new one
-    if (checkResult.rows && checkResult.rows.length > 0) {
+    if (isUpdate) {
       const existingReviewId = checkResult.rows[0][0];
       
       // Update existing review
       const updateQuery = `
         UPDATE game_reviews
-        SET rating = ?, content = ?, updated_at = datetime('now')
+        SET rating = ?, content = ?, contains_spoilers = ?, updated_at = datetime('now')
         WHERE id = ?
       `;
       
-      await executeQuery(updateQuery, [rating, content, existingReviewId]);
+      await executeQuery(updateQuery, [internalRating, content, containsSpoilers, existingReviewId]);
       reviewId = existingReviewId;
       
       console.log(`[REVIEWS] Updated existing review ${existingReviewId} for game ${gameId} by user ${user.id}`);
     } else {
       // Insert new review
       const insertQuery = `
-        INSERT INTO game_reviews (game_id, user_id, rating, content, created_at, updated_at)
-        VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+        INSERT INTO game_reviews (game_id, user_id, rating, content, contains_spoilers, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
       `;
       
       await executeQuery(insertQuery, [
         gameId,
         user.id,
-        rating,
-        content
+        internalRating,
+        content,
+        containsSpoilers
       ]);
       
       try {
@@ -198,6 +219,9 @@ router.post("/", async (ctx) => {
       console.log(`[REVIEWS] Created new review ${reviewId} for game ${gameId} by user ${user.id}`);
     }
     
+    // Keep the game's rating aggregate in sync with its reviews
+    await ratingAggregateService.refreshGame(Number(gameId));
+    
     // Create review object for response
     const review = {
       id: reviewId.toString(),
@@ -205,26 +229,23 @@ router.post("/", async (ctx) => {
       userId: user.id,
       username: user.username,
       content,
-      rating: Number(rating),
+      containsSpoilers,
+      rating: internalRating,
       gameTitle: gameTitle || 'Unknown Game',
       gameCoverUrl: gameCoverUrl || '',
       createdAt: new Date().toISOString()
     };
     
-    // Broadcast the review to all connected clients
+    // Publish the review event (with the refreshed game rating) to subscribers
     try {
-      broadcastReviewNotification({
-        type: "new_review",
-        gameId: String(gameId), // Convert to string to match frontend expectations
-        review
-      });
-      console.log(`[REVIEWS] Broadcast review notification for game ${gameId}`);
+      await reviewEventService.publish(isUpdate ? "updated_review" : "new_review", review);
+      console.log(`[REVIEWS] Published review notification for game ${gameId}`);
     } catch (wsError) {
       console.error("[REVIEWS] Error broadcasting review notification:", wsError);
       // Continue anyway, this shouldn't fail the request
     }
     
-    setJsonResponse(ctx, 201, { review });
+    setJsonResponse(ctx, 201, { review: { ...review, rating: Number(rating) } });
   } catch (error) {
     console.error("[REVIEWS] Error adding review:", error);
     setJsonResponse(ctx, 500, { error: "Failed to add review" });
@@ -246,7 +267,7 @@ router.delete("/:id", async (ctx) => {
     
     // Check if the review exists and belongs to the user
     const checkQuery = `
-      SELECT game_id FROM game_reviews
+      SELECT game_id, rating, content, created_at, contains_spoilers FROM game_reviews
       WHERE id = ? AND user_id = ?
     `;
     
@@ -257,7 +278,7 @@ router.delete("/:id", async (ctx) => {
       return;
     }
     
-    const gameId = checkResult.rows[0][0];
+    const [gameId, rating, content, createdAt, containsSpoilers] = checkResult.rows[0];
     
     // Delete the review
     const deleteQuery = `
@@ -266,6 +287,24 @@ router.delete("/:id", async (ctx) => {
     `;
     
     await executeQuery(deleteQuery, [reviewId]);
+    await ratingAggregateService.refreshGame(Number(gameId));
+    
+    // Publish the deletion so subscribers drop the review and refresh the game rating
+    try {
+      await reviewEventService.publish("deleted_review", {
+        id: String(reviewId),
+        gameId: String(gameId),
+        userId: user.id,
+        username: user.username,
+        rating: Number(rating),
+        content: String(content),
+        containsSpoilers: Boolean(containsSpoilers),
+        createdAt: String(createdAt)
+      });
+    } catch (wsError) {
+      console.error("[REVIEWS] Error broadcasting review deletion:", wsError);
+      // Continue anyway, the review is already deleted
+    }
     
     setJsonResponse(ctx, 200, { success: true, gameId: String(gameId) });
   } catch (error) {
@@ -8,12 +8,16 @@
 import { Application } from "https://deno.land/x/oak@v12.5.0/mod.ts";
 import { oakCors } from "https://deno.land/x/cors@v1.2.2/mod.ts";
 import { load } from "https://deno.land/std@0.207.0/dotenv/mod.ts";
-import { SERVER, CORS } from "./config/constants.ts";
+import { SERVER, CORS, JOBS } from "./config/constants.ts";
 import router from "./routes/index.ts";
 import { errorMiddleware } from "./middleware/error.ts";
 import { corsMiddleware } from "./config/cors.ts";
 import logger from "./utils/logger.ts";
 import db from "./services/database-service.ts";
+import migrationService from "./services/migration-service.ts";
+import jobService from "./services/job-service.ts";
+import { setupChatWebsockets } from "./websockets/chat.ts";
+import { setupReviewWebsockets } from "./websockets/reviews.ts";
 
 // Load environment variables
 try {
@@ -33,6 +37,19 @@ await db.initialize().catch(error => {
   Deno.exit(1);
 });
 
+// Apply pending schema migrations
+await migrationService.up().catch(error => {
+  logger.fatal("Failed to apply database migrations", error);
+  Deno.exit(1);
+});
+
+// Schedule background jobs (admins can still run them by hand when disabled)
+if (JOBS.ENABLED) {
+  await jobService.start().catch(error => {
+    logger.error("Failed to schedule background jobs", error);
+  });
+}
+
 // Add middleware
 app.use(errorMiddleware);
 app.use(corsMiddleware);
@@ -45,6 +62,10 @@ app.use(async (ctx, next) => {
   logger.httpRequest(ctx.request.method, ctx.request.url.pathname, ctx.response.status, ms);
 });
 
+// Add WebSocket endpoints
+setupChatWebsockets(app);
+setupReviewWebsockets(app);
+
 // Add router
 app.use(router.routes());
 app.use(router.allowedMethods());
@@ -61,6 +82,7 @@ await app.listen({ port });
 // Handle shutdown
 Deno.addSignalListener("SIGINT", () => {
   logger.info("Shutting down server...");
+  jobService.stop();
   db.close().then(() => {
     logger.info("Database connection closed");
     Deno.exit(0);
@@ -72,6 +94,7 @@ Deno.addSignalListener("SIGINT", () => {
 
 Deno.addSignalListener("SIGTERM", () => {
   logger.info("Shutting down server...");
+  jobService.stop();
   db.close().then(() => {
     logger.info("Database connection closed");
     Deno.exit(0);
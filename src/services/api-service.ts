@@ -1,348 +1,195 @@
 /**
  * API Service
- * 
- * This service handles external API interactions, particularly with the IGDB API.
- * It manages API authentication, rate limiting, and data transformation.
+ *
+ * This service handles external game metadata lookups and stores the games it finds.
+ * Providers (IGDB, RAWG, local JSON file) are queried in the configured priority order,
+ * each one falling back to the next when it fails or finds nothing.
+ * Detail lookups go to the provider named by the prefix of the external ID ("igdb:1942").
  */
 
 import logger from "../utils/logger.ts";
 import gameService from "./game-service.ts";
 import { Game } from "./game-service.ts";
+import {
+  GameMetadata,
+  GameMetadataProvider,
+  IgdbMetadataProvider,
+  LocalJsonMetadataProvider,
+  RawgMetadataProvider,
+} from "./metadata-providers.ts";
+import { BadRequestError, NotFoundError } from "../utils/errors.ts";
+import { METADATA } from "../config/constants.ts";
 
-// IGDB API configuration
-const IGDB_CLIENT_ID = Deno.env.get("IGDB_CLIENT_ID") || "";
-const IGDB_CLIENT_SECRET = Deno.env.get("IGDB_CLIENT_SECRET") || "";
-const IGDB_API_URL = "https://api.igdb.com/v4";
-const TWITCH_AUTH_URL = "https://id.twitch.tv/oauth2/token";
+/**
+ * Create the providers selected by the configuration, in priority order
+ * @returns Game metadata providers
+ */
+function createProviders(): GameMetadataProvider[] {
+  const providers: GameMetadataProvider[] = [];
+
+  for (const name of METADATA.PROVIDERS) {
+    switch (name) {
+      case "igdb":
+        providers.push(new IgdbMetadataProvider(METADATA.IGDB));
+        break;
+      case "rawg":
+        providers.push(new RawgMetadataProvider(METADATA.RAWG));
+        break;
+      case "local":
+        providers.push(new LocalJsonMetadataProvider(METADATA.LOCAL.PATH));
+        break;
+      default:
+        logger.warn(`Unknown game metadata provider "${name}", ignoring it`);
+    }
+  }
 
-// Interface for IGDB Game
-interface IGDBGame {
-  id: number;
-  name: string;
-  cover?: {
-    id: number;
-    url: string;
-  };
-  first_release_date?: number;
-  summary?: string;
+  return providers;
 }
 
 /**
  * API Service class
  */
 export class ApiService {
-  private accessToken: string | null = null;
-  private tokenExpiry: number = 0;
-  
-  /**
-   * Get an access token for the IGDB API
-   * @returns Access token
-   */
-  private async getAccessToken(): Promise<string> {
-    // Check if we have a valid token
-    const now = Date.now();
-    if (this.accessToken && now < this.tokenExpiry) {
-      return this.accessToken;
-    }
-    
-    // Check if we have client credentials
-    if (!IGDB_CLIENT_ID || !IGDB_CLIENT_SECRET) {
-      throw new Error("IGDB API credentials not configured");
-    }
-    
-    try {
-      // Request a new token
-      const response = await fetch(`${TWITCH_AUTH_URL}?client_id=${IGDB_CLIENT_ID}&client_secret=${IGDB_CLIENT_SECRET}&grant_type=client_credentials`, {
-        method: "POST",
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to get access token: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      // Store the token and expiry
-      this.accessToken = data.access_token;
-      this.tokenExpiry = now + (data.expires_in * 1000);
-      
-      logger.debug("Obtained new IGDB API access token");
-      
-      return this.accessToken;
-    } catch (error) {
-      logger.error("Error getting IGDB access token", error);
-      throw new Error(`Failed to authenticate with IGDB API: ${error.message}`);
-    }
-  }
-  
+  constructor(private providers: GameMetadataProvider[]) {}
+
   /**
-   * Make a request to the IGDB API
-   * @param endpoint - API endpoint
-   * @param query - API query
-   * @returns API response
+   * Replace the providers (e.g. to serve fixed games in development tools)
+   * @param providers - Game metadata providers, in priority order
    */
-  private async makeIGDBRequest<T>(endpoint: string, query: string): Promise<T> {
-    try {
-      const token = await this.getAccessToken();
-      
-      const response = await fetch(`${IGDB_API_URL}/${endpoint}`, {
-        method: "POST",
-        headers: {
-          "Client-ID": IGDB_CLIENT_ID,
-          "Authorization": `Bearer ${token}`,
-          "Content-Type": "text/plain",
-        },
-        body: query,
-      });
-      
-      if (!response.ok) {
-        throw new Error(`IGDB API error: ${response.status} ${response.statusText}`);
-      }
-      
-      return await response.json() as T;
-    } catch (error) {
-      logger.error(`IGDB API request failed: ${error.message}`, { endpoint, query });
-      throw new Error(`IGDB API request failed: ${error.message}`);
-    }
+  setProviders(providers: GameMetadataProvider[]): void {
+    this.providers = providers;
   }
-  
+
   /**
-   * Search for games in the IGDB API
+   * Search for games in the external providers
    * @param query - Search query
    * @param limit - Maximum number of results
    * @returns List of games
    */
   async searchGames(query: string, limit = 10): Promise<Game[]> {
-    try {
-      // Make API request
-      const igdbQuery = `
-        search "${query}";
-        fields name, cover.url, first_release_date, summary;
-        limit ${limit};
-      `;
-      
-      const igdbGames = await this.makeIGDBRequest<IGDBGame[]>("games", igdbQuery);
-      
-      // Transform and store games
-      const games: Game[] = [];
-      
-      for (const igdbGame of igdbGames) {
-        // Transform cover URL
-        let coverUrl = null;
-        if (igdbGame.cover?.url) {
-          // Convert from thumbnail to full size image
-          coverUrl = igdbGame.cover.url.replace("t_thumb", "t_cover_big");
-          
-          // Ensure HTTPS
-          if (coverUrl.startsWith("//")) {
-            coverUrl = `https:${coverUrl}`;
-          }
-        }
-        
-        // Transform release date
-        let releaseDate = null;
-        if (igdbGame.first_release_date) {
-          releaseDate = new Date(igdbGame.first_release_date * 1000).toISOString();
-        }
-        
-        // Store in database
-        const game = await gameService.createOrUpdateGame({
-          external_id: `igdb:${igdbGame.id}`,
-          title: igdbGame.name,
-          cover_url: coverUrl,
-          release_date: releaseDate,
-          description: igdbGame.summary,
-        });
-        
-        games.push(game);
-      }
-      
-      return games;
-    } catch (error) {
-      logger.error(`Game search failed: ${error.message}`, { query });
-      throw new Error(`Game search failed: ${error.message}`);
-    }
+    return await this.fetchGames("Game search", provider => provider.searchGames(query, limit));
   }
-  
+
   /**
-   * Get game details from the IGDB API
-   * @param gameId - IGDB game ID
+   * Get game details from the provider named by the external ID
+   * @param externalId - External ID, prefixed with the provider name ("igdb:1942")
    * @returns Game details
+   * @throws BadRequestError if the prefix names no configured provider
+   * @throws NotFoundError if the provider doesn't know the game
    */
-  async getGameDetails(gameId: number): Promise<Game> {
-    try {
-      // Check if we already have this game
-      const existingGame = await gameService.getGameByExternalId(`igdb:${gameId}`);
-      if (existingGame) {
-        return existingGame;
-      }
-      
-      // Make API request
-      const igdbQuery = `
-        fields name, cover.url, first_release_date, summary;
-        where id = ${gameId};
-      `;
-      
-      const igdbGames = await this.makeIGDBRequest<IGDBGame[]>("games", igdbQuery);
-      
-      if (igdbGames.length === 0) {
-        throw new Error(`Game with ID ${gameId} not found`);
-      }
-      
-      const igdbGame = igdbGames[0];
-      
-      // Transform cover URL
-      let coverUrl = null;
-      if (igdbGame.cover?.url) {
-        // Convert from thumbnail to full size image
-        coverUrl = igdbGame.cover.url.replace("t_thumb", "t_cover_big");
-        
-        // Ensure HTTPS
-        if (coverUrl.startsWith("//")) {
-          coverUrl = `https:${coverUrl}`;
-        }
-      }
-      
-      // Transform release date
-      let releaseDate = null;
-      if (igdbGame.first_release_date) {
-        releaseDate = new Date(igdbGame.first_release_date * 1000).toISOString();
-      }
-      
-      // Store in database
-      return await gameService.createOrUpdateGame({
-        external_id: `igdb:${igdbGame.id}`,
-        title: igdbGame.name,
-        cover_url: coverUrl,
-        release_date: releaseDate,
-        description: igdbGame.summary,
-      });
-    } catch (error) {
-      logger.error(`Game details retrieval failed: ${error.message}`, { gameId });
-      throw new Error(`Game details retrieval failed: ${error.message}`);
+  async getGameDetails(externalId: string): Promise<Game> {
+    // Check if we already have this game
+    const existingGame = await gameService.getGameByExternalId(externalId);
+    if (existingGame) {
+      return existingGame;
+    }
+
+    return await this.refreshGame(externalId);
+  }
+
+  /**
+   * Fetch a game again from the provider named by its external ID and store it
+   * @param externalId - External ID, prefixed with the provider name ("igdb:1942")
+   * @returns Stored game
+   * @throws BadRequestError if the prefix names no configured provider
+   * @throws NotFoundError if the provider doesn't know the game
+   */
+  async refreshGame(externalId: string): Promise<Game> {
+    const separator = externalId.indexOf(":");
+    const name = separator > 0 ? externalId.slice(0, separator) : "";
+    const provider = this.providers.find(provider => provider.name === name);
+
+    if (!provider || !provider.isConfigured()) {
+      throw new BadRequestError(`No game metadata provider configured for "${externalId}"`);
+    }
+
+    const metadata = await provider.getGameDetails(externalId.slice(separator + 1));
+    if (!metadata) {
+      throw new NotFoundError(`Game with external ID ${externalId} not found`);
     }
+
+    // Store in database
+    return await gameService.createOrUpdateGame(metadata);
+  }
+
+  /**
+   * Get the names of the configured providers, which are also the prefixes of their external IDs
+   * @returns Provider names, in priority order
+   */
+  getProviderNames(): string[] {
+    return this.providers.filter(provider => provider.isConfigured()).map(provider => provider.name);
   }
-  
+
   /**
-   * Get popular games from the IGDB API
+   * Get popular games from the external providers
    * @param limit - Maximum number of results
    * @returns List of popular games
    */
   async getPopularGames(limit = 10): Promise<Game[]> {
-    try {
-      // Make API request
-      const igdbQuery = `
-        fields name, cover.url, first_release_date, summary;
-        sort popularity desc;
-        limit ${limit};
-      `;
-      
-      const igdbGames = await this.makeIGDBRequest<IGDBGame[]>("games", igdbQuery);
-      
-      // Transform and store games
-      const games: Game[] = [];
-      
-      for (const igdbGame of igdbGames) {
-        // Transform cover URL
-        let coverUrl = null;
-        if (igdbGame.cover?.url) {
-          // Convert from thumbnail to full size image
-          coverUrl = igdbGame.cover.url.replace("t_thumb", "t_cover_big");
-          
-          // Ensure HTTPS
-          if (coverUrl.startsWith("//")) {
-            coverUrl = `https:${coverUrl}`;
-          }
-        }
-        
-        // Transform release date
-        let releaseDate = null;
-        if (igdbGame.first_release_date) {
-          releaseDate = new Date(igdbGame.first_release_date * 1000).toISOString();
-        }
-        
-        // Store in database
-        const game = await gameService.createOrUpdateGame({
-          external_id: `igdb:${igdbGame.id}`,
-          title: igdbGame.name,
-          cover_url: coverUrl,
-          release_date: releaseDate,
-          description: igdbGame.summary,
-        });
-        
-        games.push(game);
-      }
-      
-      return games;
-    } catch (error) {
-      logger.error(`Popular games retrieval failed: ${error.message}`);
-      throw new Error(`Popular games retrieval failed: ${error.message}`);
-    }
+    return await this.fetchGames("Popular games retrieval", provider => provider.getPopularGames(limit));
   }
-  
+
   /**
-   * Get recent games from the IGDB API
+   * Get games released recently from the external providers
    * @param limit - Maximum number of results
    * @returns List of recent games
    */
   async getRecentGames(limit = 10): Promise<Game[]> {
-    try {
-      // Calculate date 3 months ago
-      const now = Math.floor(Date.now() / 1000);
-      const threeMonthsAgo = now - (90 * 24 * 60 * 60);
-      
-      // Make API request
-      const igdbQuery = `
-        fields name, cover.url, first_release_date, summary;
-        where first_release_date > ${threeMonthsAgo} & first_release_date < ${now};
-        sort first_release_date desc;
-        limit ${limit};
-      `;
-      
-      const igdbGames = await this.makeIGDBRequest<IGDBGame[]>("games", igdbQuery);
-      
-      // Transform and store games
+    const since = new Date(Date.now() - METADATA.RECENT_DAYS * 24 * 60 * 60 * 1000);
+
+    return await this.fetchGames("Recent games retrieval", provider => provider.getRecentGames(limit, since));
+  }
+
+  /**
+   * Query the configured providers in priority order and store the games of the first one finding any
+   * @param operation - Name of the operation, for logs and errors
+   * @param query - Query run against a provider
+   * @returns Stored games, or none if no provider found any
+   * @throws Error if no provider is configured, or if every provider failed
+   */
+  private async fetchGames(
+    operation: string,
+    query: (provider: GameMetadataProvider) => Promise<GameMetadata[]>
+  ): Promise<Game[]> {
+    const providers = this.providers.filter(provider => provider.isConfigured());
+    if (providers.length === 0) {
+      throw new Error(`${operation} failed: no game metadata provider configured`);
+    }
+
+    let lastError: Error | null = null;
+
+    for (const provider of providers) {
+      let results: GameMetadata[];
+
+      try {
+        results = await query(provider);
+      } catch (error) {
+        logger.warn(`${operation} failed with the ${provider.name} provider: ${error.message}`);
+        lastError = error;
+        continue;
+      }
+
+      if (results.length === 0) {
+        continue;
+      }
+
+      // Store in database
       const games: Game[] = [];
-      
-      for (const igdbGame of igdbGames) {
-        // Transform cover URL
-        let coverUrl = null;
-        if (igdbGame.cover?.url) {
-          // Convert from thumbnail to full size image
-          coverUrl = igdbGame.cover.url.replace("t_thumb", "t_cover_big");
-          
-          // Ensure HTTPS
-          if (coverUrl.startsWith("//")) {
-            coverUrl = `https:${coverUrl}`;
-          }
-        }
-        
-        // Transform release date
-        let releaseDate = null;
-        if (igdbGame.first_release_date) {
-          releaseDate = new Date(igdbGame.first_release_date * 1000).toISOString();
-        }
-        
-        // Store in database
-        const game = await gameService.createOrUpdateGame({
-          external_id: `igdb:${igdbGame.id}`,
-          title: igdbGame.name,
-          cover_url: coverUrl,
-          release_date: releaseDate,
-          description: igdbGame.summary,
-        });
-        
-        games.push(game);
+      for (const metadata of results) {
+        games.push(await gameService.createOrUpdateGame(metadata));
       }
-      
+
       return games;
-    } catch (error) {
-      logger.error(`Recent games retrieval failed: ${error.message}`);
-      throw new Error(`Recent games retrieval failed: ${error.message}`);
     }
+
+    if (lastError) {
+      throw new Error(`${operation} failed: ${lastError.message}`);
+    }
+
+    return [];
   }
 }
 
 // Create and export a singleton instance
-const apiService = new ApiService();
-export default apiService; 
\ No newline at end of file
+const apiService = new ApiService(createProviders());
+export default apiService;
@@ -0,0 +1,107 @@
+/**
+ * Catalogue Sync Service
+ *
+ * This service keeps the game catalogue up to date with the metadata providers:
+ * - Refreshing games whose metadata is older than a threshold
+ * - Importing games released recently
+ * It runs as a background job (see job-service.ts).
+ */
+
+import db from "./database-service.ts";
+import apiService from "./api-service.ts";
+import { Game } from "./game-service.ts";
+import { NotFoundError } from "../utils/errors.ts";
+import { JOBS } from "../config/constants.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Outcome of a catalogue sync
+ */
+export interface CatalogueSyncResult {
+  /** Number of stale games fetched again */
+  refreshed: number;
+  /** Number of recent releases imported or updated */
+  imported: number;
+  /** Number of games or steps that failed */
+  failed: number;
+  /** Error messages of the failures */
+  errors: string[];
+}
+
+/**
+ * Catalogue sync service class
+ */
+export class CatalogueSyncService {
+  /**
+   * Refresh the stale games, then import the recent releases
+   * Games whose provider isn't configured are left alone
+   * @returns Outcome of the sync
+   */
+  async sync(): Promise<CatalogueSyncResult> {
+    const result: CatalogueSyncResult = { refreshed: 0, imported: 0, failed: 0, errors: [] };
+
+    const providerNames = apiService.getProviderNames();
+    if (providerNames.length === 0) {
+      logger.debug("Catalogue sync skipped: no game metadata provider configured");
+      return result;
+    }
+
+    await this.refreshStaleGames(providerNames, result);
+    await this.importNewReleases(result);
+
+    return result;
+  }
+
+  /**
+   * Fetch again the games not updated for CATALOGUE_SYNC.STALE_AFTER_DAYS, oldest first
+   * @param providerNames - Configured providers, whose games can be refreshed
+   * @param result - Outcome of the sync, updated in place
+   */
+  private async refreshStaleGames(providerNames: string[], result: CatalogueSyncResult): Promise<void> {
+    const staleBefore = new Date(
+      Date.now() - JOBS.CATALOGUE_SYNC.STALE_AFTER_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const staleGames = await db.query<Pick<Game, "id" | "external_id">>(
+      `SELECT id, external_id
+      FROM games
+      WHERE updated_at < ? AND (${providerNames.map(() => "external_id LIKE ?").join(" OR ")})
+      ORDER BY updated_at ASC, id ASC
+      LIMIT ?`,
+      [staleBefore, ...providerNames.map(name => `${name}:%`), JOBS.CATALOGUE_SYNC.BATCH_SIZE]
+    );
+
+    for (const game of staleGames.rows) {
+      try {
+        await apiService.refreshGame(game.external_id);
+        result.refreshed++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push(`${game.external_id}: ${error.message}`);
+
+        // A game its provider no longer knows waits for the next threshold instead of blocking the batch
+        if (error instanceof NotFoundError) {
+          await db.update("games", { updated_at: new Date().toISOString() }, "id = ?", [game.id]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Import the games released recently, from the first provider finding any
+   * @param result - Outcome of the sync, updated in place
+   */
+  private async importNewReleases(result: CatalogueSyncResult): Promise<void> {
+    try {
+      const games = await apiService.getRecentGames(JOBS.CATALOGUE_SYNC.NEW_RELEASES_LIMIT);
+      result.imported += games.length;
+    } catch (error) {
+      result.failed++;
+      result.errors.push(`New releases: ${error.message}`);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const catalogueSyncService = new CatalogueSyncService();
+export default catalogueSyncService;
@@ -0,0 +1,181 @@
+/**
+ * Chat Service
+ *
+ * This service handles community chat messages:
+ * - Persisting messages in the general room or a game's room
+ * - Paginated message history
+ * - Message deletion by their author
+ */
+
+import db from "./database-service.ts";
+import gameService from "./game-service.ts";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../utils/errors.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+import { CHAT } from "../config/constants.ts";
+import { RowObject } from "./database-service.ts";
+
+/**
+ * Chat message interface
+ */
+export interface ChatMessage extends RowObject {
+  id: number;
+  user_id: number;
+  game_id: number | null;
+  content: string;
+  created_at: string;
+  username?: string;
+}
+
+/**
+ * Get the name of the chat room of a game
+ * @param gameId - Game ID, or null for the general room
+ * @returns Room name
+ */
+export function getChatRoom(gameId: number | null): string {
+  return gameId === null ? CHAT.GENERAL_ROOM : `game:${gameId}`;
+}
+
+/**
+ * Sort key of the message history, newest first
+ */
+const MESSAGE_CURSOR_KEYS: CursorKey[] = [
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Chat service class
+ */
+export class ChatService {
+  /**
+   * Post a message in a chat room
+   * @param userId - Author ID
+   * @param content - Message text
+   * @param gameId - Game whose room receives the message, or null for the general room
+   * @returns Created message
+   * @throws BadRequestError if the message is empty or too long
+   * @throws ForbiddenError if the author is banned
+   * @throws NotFoundError if the game doesn't exist
+   */
+  async createMessage(userId: number, content: string, gameId: number | null): Promise<ChatMessage> {
+    const text = content.trim();
+
+    if (!text) {
+      throw new BadRequestError("Message content is required");
+    }
+
+    if (text.length > CHAT.MAX_MESSAGE_LENGTH) {
+      throw new BadRequestError(`Message cannot exceed ${CHAT.MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const author = await db.query<{ banned_at: string | null }>(
+      "SELECT banned_at FROM users WHERE id = ?",
+      [userId]
+    );
+    if (!author.rows[0] || author.rows[0].banned_at) {
+      throw new ForbiddenError("This account cannot post messages");
+    }
+
+    await this.assertRoomExists(gameId);
+
+    const messageId = await db.insert("chat_messages", {
+      user_id: userId,
+      game_id: gameId,
+      content: text,
+      created_at: new Date().toISOString(),
+    });
+
+    // Retrieve created message
+    const message = await this.getMessageById(messageId);
+    if (!message) {
+      throw new Error("Failed to retrieve created message");
+    }
+
+    return message;
+  }
+
+  /**
+   * Get the message history of a chat room
+   * @param gameId - Game whose room to read, or null for the general room
+   * @param page - Requested page, the next page holding older messages
+   * @returns Page of messages, newest first
+   * @throws NotFoundError if the game doesn't exist
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getMessages(gameId: number | null, page: CursorPageRequest): Promise<CursorPage<ChatMessage>> {
+    await this.assertRoomExists(gameId);
+
+    return await db.queryPage<ChatMessage>(
+      `SELECT
+        cm.*,
+        u.username
+      FROM chat_messages cm
+      JOIN users u ON cm.user_id = u.id
+      WHERE ${gameId === null ? "cm.game_id IS NULL" : "cm.game_id = ?"}`,
+      gameId === null ? [] : [gameId],
+      MESSAGE_CURSOR_KEYS,
+      page
+    );
+  }
+
+  /**
+   * Get a message by ID
+   * @param id - Message ID
+   * @returns Message or null if not found
+   */
+  async getMessageById(id: number): Promise<ChatMessage | null> {
+    const result = await db.query<ChatMessage>(
+      `SELECT
+        cm.*,
+        u.username
+      FROM chat_messages cm
+      JOIN users u ON cm.user_id = u.id
+      WHERE cm.id = ?`,
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete a message
+   * @param userId - User requesting the deletion
+   * @param messageId - Message ID
+   * @returns Deleted message
+   * @throws NotFoundError if the message doesn't exist
+   * @throws ForbiddenError if the user is not the author
+   */
+  async deleteMessage(userId: number, messageId: number): Promise<ChatMessage> {
+    const message = await this.getMessageById(messageId);
+    if (!message) {
+      throw new NotFoundError(`Message with ID ${messageId} not found`);
+    }
+
+    if (message.user_id !== userId) {
+      throw new ForbiddenError("You can only delete your own messages");
+    }
+
+    await db.delete("chat_messages", "id = ?", [messageId]);
+
+    return message;
+  }
+
+  /**
+   * Check that the room of a game exists
+   * @param gameId - Game ID, or null for the general room
+   * @throws NotFoundError if the game doesn't exist
+   */
+  private async assertRoomExists(gameId: number | null): Promise<void> {
+    if (gameId === null) {
+      return;
+    }
+
+    const game = await gameService.getGameById(gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${gameId} not found`);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const chatService = new ChatService();
+export default chatService;
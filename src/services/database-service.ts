@@ -10,6 +10,7 @@ import { Pool, PoolClient } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
 import { dbConfig } from "../config/database.ts";
 import { DatabaseError } from "../utils/errors.ts";
 import logger from "../utils/logger.ts";
+import { CursorKey, CursorPage, CursorPageRequest, decodePageCursor, encodePageCursor } from "../utils/pagination.ts";
 import { ensureDirSync } from "https://deno.land/std@0.190.0/fs/ensure_dir.ts";
 
 /**
@@ -41,6 +42,7 @@ export class DatabaseService {
   private dbSystem: DatabaseSystem | null = null;
   private client: PoolClient | null = null;
   private inTransaction = false;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   /**
    * Initialize the database connection
@@ -62,9 +64,6 @@ export class DatabaseService {
         this.db = pool;
         this.dbSystem = "postgres";
         logger.info("Successfully connected to PostgreSQL database");
-        
-        // Initialize schema if needed
-        await this.initializePostgresSchema();
       } else {
         throw new Error("PostgreSQL URL not configured, falling back to SQLite");
       }
@@ -90,9 +89,6 @@ export class DatabaseService {
         this.db = new DB(dbConfig.sqlitePath);
         this.dbSystem = "sqlite";
         logger.info("Successfully connected to SQLite database");
-        
-        // Initialize schema if needed
-        await this.initializeSqliteSchema();
       } catch (sqliteError) {
         const sqliteErr = sqliteError instanceof Error ? sqliteError : new Error(String(sqliteError));
         logger.error("Failed to connect to any database", sqliteErr);
@@ -107,100 +103,66 @@ export class DatabaseService {
   }
 
   /**
-   * Initialize PostgreSQL schema
+   * Get the active database system
+   * @returns The active database system, or null if not initialized
    */
-  private async initializePostgresSchema(): Promise<void> {
-    if (!this.db || this.dbSystem !== "postgres") {
-      throw new DatabaseError("PostgreSQL database not initialized");
-    }
-    
-    try {
-      const client = await (this.db as Pool).connect();
-      
-      try {
-        // Check if schema needs to be initialized
-        const result = await client.queryObject<{ exists: boolean }>(
-          "SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_name = 'users') AS exists"
-        );
-        
-        if (!result.rows[0].exists) {
-          logger.info("Initializing PostgreSQL schema");
-          
-          // Read schema file
-          const schemaSQL = await Deno.readTextFile(dbConfig.schemaPath);
-          
-          // Execute schema SQL
-          await client.queryObject(schemaSQL);
-          logger.info("PostgreSQL schema initialized successfully");
-        }
-      } finally {
-        client.release();
-      }
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error("Failed to initialize PostgreSQL schema", err);
-      throw new DatabaseError("Failed to initialize PostgreSQL schema", { 
-        details: { error: err.message }
-      });
-    }
+  getDatabaseSystem(): DatabaseSystem | null {
+    return this.dbSystem;
   }
 
   /**
-   * Initialize SQLite schema
+   * Execute a multi-statement SQL script (schema changes, migrations)
+   * Runs on the transaction client when a transaction is in progress
+   * @param sql - SQL script, already in the dialect of the active database
    */
-  private async initializeSqliteSchema(): Promise<void> {
-    if (!this.db || this.dbSystem !== "sqlite") {
-      throw new DatabaseError("SQLite database not initialized");
+  async executeScript(sql: string): Promise<void> {
+    if (!this.db) {
+      throw new DatabaseError("Database not initialized");
+    }
+    
+    if (dbConfig.logQueries) {
+      logger.debug("Executing SQL script", { length: sql.length });
     }
     
     try {
-      // Check if schema needs to be initialized
-      const db = this.db as DB;
-      const result = db.query<[number]>(
-        "SELECT COUNT(*) FROM sqlite_master WHERE type='table' AND name='users'"
-      );
-      
-      if (result[0][0] === 0) {
-        logger.info("Initializing SQLite schema");
-        
-        // Read schema file
-        const schemaSQL = await Deno.readTextFile(dbConfig.schemaPath);
-        
-        // Convert PostgreSQL schema to SQLite compatible
-        const sqliteSchema = this.convertPgSchemaToSqlite(schemaSQL);
+      if (this.dbSystem === "postgres") {
+        const client = this.client || await (this.db as Pool).connect();
         
-        // Execute schema SQL
-        db.execute(sqliteSchema);
-        logger.info("SQLite schema initialized successfully");
+        try {
+          // Without parameters the simple query protocol accepts several statements
+          await client.queryArray(sql);
+        } finally {
+          if (!this.client) {
+            client.release();
+          }
+        }
+      } else {
+        const db = this.db as DB;
+        db.execute(sql);
       }
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      logger.error("Failed to initialize SQLite schema", err);
-      throw new DatabaseError("Failed to initialize SQLite schema", { 
-        details: { error: err.message }
-      });
+      logger.error(`Script error: ${err.message}`, err);
+      throw new DatabaseError(`Database script error: ${err.message}`);
     }
   }
 
   /**
-   * Convert PostgreSQL schema to SQLite compatible
-   * @param pgSchema - PostgreSQL schema SQL
-   * @returns SQLite compatible schema SQL
+   * Convert "?" placeholders to PostgreSQL's numbered parameters
+   * Numbering continues after any $n placeholder already present in the query,
+   * so clauses built by update() keep working
+   * @param sql - SQL query
+   * @returns SQL query using only $n placeholders
    */
-  private convertPgSchemaToSqlite(pgSchema: string): string {
-    // Replace PostgreSQL-specific syntax with SQLite compatible syntax
-    return pgSchema
-      // Replace serial with integer primary key
-      .replace(/SERIAL PRIMARY KEY/gi, "INTEGER PRIMARY KEY AUTOINCREMENT")
-      // Replace timestamp with datetime
-      .replace(/TIMESTAMP/gi, "DATETIME")
-      // Replace now() with datetime('now')
-      .replace(/NOW\(\)/gi, "datetime('now')")
-      // Remove PostgreSQL-specific column constraints
-      .replace(/WITH TIME ZONE/gi, "")
-      // Handle other PostgreSQL-specific syntax
-      .replace(/CREATE EXTENSION IF NOT EXISTS.+?;/g, "")
-      .replace(/OWNER TO.+?;/g, "");
+  private toPostgresPlaceholders(sql: string): string {
+    if (!sql.includes("?")) {
+      return sql;
+    }
+    
+    const existing = [...sql.matchAll(/\$(\d+)/g)].map(match => Number(match[1]));
+    let index = existing.length > 0 ? Math.max(...existing) : 0;
+    
+    return sql.replace(/\?/g, () => `$${++index}`);
   }
 
   /**
@@ -227,7 +189,7 @@ export class DatabaseService {
         const client = this.client || await (this.db as Pool).connect();
         
         try {
-          const result = await client.queryObject<T>(sql, params);
+          const result = await client.queryObject<T>(this.toPostgresPlaceholders(sql), params);
           
           if (!this.client) {
             client.release();
@@ -235,7 +197,8 @@ export class DatabaseService {
           
           return {
             rows: result.rows,
-            rowCount: result.rows.length,
+            // Affected rows for INSERT/UPDATE/DELETE, returned rows for SELECT
+            rowCount: result.rowCount ?? result.rows.length,
           };
         } catch (error) {
           if (!this.client) {
@@ -284,6 +247,87 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Execute a query and return one page of its rows, paged with keyset cursors
+   * The query must not be ordered nor limited: it is wrapped in a subquery sorted by the sort key.
+   * Dates sort differently in each database, so date columns of a sort key must be selected
+   * as text (CAST(column AS TEXT) as sort_column) and marked internal.
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @param keys - Sort key of the list
+   * @param page - Requested page
+   * @returns Rows of the page, cursors of the neighbouring pages, and the number of rows when requested
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async queryPage<T extends RowObject = RowObject>(
+    sql: string,
+    params: unknown[],
+    keys: CursorKey[],
+    page: CursorPageRequest
+  ): Promise<CursorPage<T>> {
+    const position = page.cursor ? decodePageCursor(page.cursor, keys) : null;
+    const backward = position?.backward ?? false;
+    
+    // Rows after the cursor in the direction read: for each key, equal on the previous keys and past it on this one
+    const conditions: string[] = [];
+    const conditionParams: unknown[] = [];
+    
+    if (position) {
+      keys.forEach((key, index) => {
+        const operator = (key.direction === "ASC") !== backward ? ">" : "<";
+        const equalities = keys.slice(0, index).map(previous => `paged.${previous.column} = ?`);
+        
+        conditions.push(`(${[...equalities, `paged.${key.column} ${operator} ?`].join(" AND ")})`);
+        conditionParams.push(...position.values.slice(0, index + 1));
+      });
+    }
+    
+    // Backward pages are read in reverse order, then put back in the list order
+    const orderBy = keys
+      .map(key => `paged.${key.column} ${(key.direction === "ASC") !== backward ? "ASC" : "DESC"}`)
+      .join(", ");
+    
+    // Fetch one extra row to know whether another page exists in the direction read
+    const result = await this.query<T>(
+      `SELECT * FROM (${sql}) paged
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" OR ")}` : ""}
+      ORDER BY ${orderBy}
+      LIMIT ?`,
+      [...params, ...conditionParams, page.limit + 1]
+    );
+    
+    const hasMore = result.rows.length > page.limit;
+    const rows = result.rows.slice(0, page.limit);
+    if (backward) {
+      rows.reverse();
+    }
+    
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    
+    // Coming from a cursor, there are rows on the other side of it
+    const next = last && (backward || hasMore) ? encodePageCursor(last, keys, "next") : null;
+    const prev = first && (backward ? hasMore : position !== null) ? encodePageCursor(first, keys, "prev") : null;
+    
+    let total: number | undefined;
+    if (page.withTotal) {
+      const countResult = await this.query<{ count: number }>(
+        `SELECT COUNT(*) as count FROM (${sql}) counted`,
+        params
+      );
+      total = Number(countResult.rows[0]?.count || 0);
+    }
+    
+    const internalColumns = keys.filter(key => key.internal).map(key => key.column);
+    const items = internalColumns.length === 0 ? rows : rows.map(row => {
+      const item: RowObject = { ...row };
+      internalColumns.forEach(column => delete item[column]);
+      return item as T;
+    });
+    
+    return { items, next, prev, total };
+  }
+
   /**
    * Insert a record and return the inserted ID
    * @param table - Table name
@@ -502,6 +546,34 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Run a unit of work in a transaction, committed if it succeeds and rolled back if it throws
+   * The connection holds a single transaction at a time, so concurrent callers wait for their turn
+   * instead of failing with "Transaction already in progress"
+   * @param work - Queries to run in the transaction
+   * @returns Result of the unit of work
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      await this.beginTransaction();
+      
+      try {
+        const result = await work();
+        await this.commitTransaction();
+        return result;
+      } catch (error) {
+        await this.rollbackTransaction();
+        throw error;
+      }
+    };
+    
+    // Chain after the previous transaction whether it succeeded or not
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    
+    return result;
+  }
+
   /**
    * Close the database connection
    */
@@ -103,7 +103,7 @@ class DatabaseService {
       
       // Initialize schema
       try {
-        const schemaSQL = await Deno.readTextFile("./database/schema.sql");
+        const schemaSQL = await Deno.readTextFile("./database/migrations/0001_initial_schema.up.sql");
         await client.queryArray(schemaSQL);
         console.log("PostgreSQL schema initialized successfully");
       } finally {
@@ -121,7 +121,7 @@ class DatabaseService {
         this.dbSystem = 'sqlite';
         
         // Initialize SQLite schema by converting PostgreSQL schema
-        let schemaSQL = await Deno.readTextFile("./database/schema.sql");
+        let schemaSQL = await Deno.readTextFile("./database/migrations/0001_initial_schema.up.sql");
         
         // Convert PostgreSQL schema to SQLite
         schemaSQL = schemaSQL
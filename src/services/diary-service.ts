@@ -0,0 +1,381 @@
+/**
+ * Diary Service
+ *
+ * This service handles users' play diaries, separate from reviews and libraries:
+ * - Logging play sessions and completions, any number per game
+ * - Browsing a diary by month, with monthly summaries
+ * - Replay tracking: plays following an earlier completion are replays, derived when entries are read
+ */
+
+import db from "./database-service.ts";
+import gameService from "./game-service.ts";
+import { NotFoundError } from "../utils/errors.ts";
+import { DIARY } from "../config/constants.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Kind of diary entry
+ */
+export type DiaryEntryKind = typeof DIARY.ENTRY_KINDS[number];
+
+/**
+ * Diary entry interface
+ */
+export interface DiaryEntry extends RowObject {
+  id: number;
+  user_id: number;
+  game_id: number;
+  kind: DiaryEntryKind;
+  played_on: string;
+  platform: string | null;
+  hours_played: number | null;
+  rating: number | null;
+  note: string | null;
+  replay_override?: boolean | null;
+  is_replay: boolean;
+  created_at: string;
+  updated_at: string;
+  game_title?: string;
+  game_cover_url?: string | null;
+}
+
+/**
+ * Data logged with a diary entry (rating on the internal scale)
+ */
+export interface DiaryEntryInput {
+  gameId: number;
+  kind: DiaryEntryKind;
+  playedOn: string;
+  platform?: string | null;
+  hoursPlayed?: number | null;
+  rating?: number | null;
+  note?: string | null;
+  /** Whether the play is a replay, or null to derive it from the earlier completions */
+  replay?: boolean | null;
+}
+
+/**
+ * Summary of a month of a diary
+ */
+export interface DiaryMonthSummary extends RowObject {
+  month: string;
+  entry_count: number;
+  completion_count: number;
+  hours_played: number;
+}
+
+/**
+ * Play history of one game in a diary
+ */
+export interface DiaryGameHistory {
+  game_id: number;
+  entries: DiaryEntry[];
+  completion_count: number;
+  replay_count: number;
+  hours_played: number;
+}
+
+/**
+ * Columns of a diary entry aliased "de" with its game, and whether it is a replay:
+ * the client's choice, or else whether a completion of the game comes before it
+ * (entries of the same day are ordered by the time they were logged)
+ */
+const DIARY_ENTRY_SQL = `de.*,
+        COALESCE(de.replay_override, EXISTS (
+          SELECT 1
+          FROM diary_entries earlier
+          WHERE earlier.user_id = de.user_id
+            AND earlier.game_id = de.game_id
+            AND earlier.kind = 'completion'
+            AND (earlier.played_on < de.played_on OR (earlier.played_on = de.played_on AND earlier.id < de.id))
+        )) as is_replay,
+        g.title as game_title,
+        g.cover_url as game_cover_url`;
+
+/**
+ * Sort key of diary listings, most recent plays first
+ */
+const DIARY_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_played_on", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Diary service class
+ */
+export class DiaryService {
+  /**
+   * Get a user's diary entries, most recent plays first
+   * @param userId - User ID
+   * @param page - Requested page
+   * @returns Page of diary entries with game information
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getEntries(userId: number, page: CursorPageRequest): Promise<CursorPage<DiaryEntry>> {
+    const result = await db.queryPage<DiaryEntry>(
+      `SELECT
+        ${DIARY_ENTRY_SQL},
+        CAST(de.played_on AS TEXT) as sort_played_on
+      FROM diary_entries de
+      JOIN games g ON de.game_id = g.id
+      WHERE de.user_id = ?`,
+      [userId],
+      DIARY_CURSOR_KEYS,
+      page
+    );
+
+    return { ...result, items: result.items.map(entry => this.formatEntry(entry)) };
+  }
+
+  /**
+   * Get a month of a user's diary
+   * @param userId - User ID
+   * @param month - Month, as YYYY-MM
+   * @returns Entries of the month, most recent plays first, and the month's summary
+   */
+  async getMonth(userId: number, month: string): Promise<{
+    entries: DiaryEntry[];
+    summary: DiaryMonthSummary;
+  }> {
+    const [year, monthNumber] = month.split("-").map(Number);
+    const nextMonth = monthNumber === 12
+      ? `${year + 1}-01`
+      : `${year}-${String(monthNumber + 1).padStart(2, "0")}`;
+
+    const result = await db.query<DiaryEntry>(
+      `SELECT
+        ${DIARY_ENTRY_SQL}
+      FROM diary_entries de
+      JOIN games g ON de.game_id = g.id
+      WHERE de.user_id = ? AND de.played_on >= ? AND de.played_on < ?
+      ORDER BY de.played_on DESC, de.id DESC`,
+      [userId, `${month}-01`, `${nextMonth}-01`]
+    );
+
+    const entries = result.rows.map(entry => this.formatEntry(entry));
+
+    return {
+      entries,
+      summary: {
+        month,
+        entry_count: entries.length,
+        completion_count: entries.filter(entry => entry.kind === "completion").length,
+        hours_played: entries.reduce((hours, entry) => hours + (entry.hours_played || 0), 0),
+      },
+    };
+  }
+
+  /**
+   * Get the months of a user's diary that have entries
+   * @param userId - User ID
+   * @returns Month summaries, most recent first
+   */
+  async getMonths(userId: number): Promise<DiaryMonthSummary[]> {
+    const result = await db.query<DiaryMonthSummary>(
+      `SELECT
+        SUBSTR(CAST(played_on AS TEXT), 1, 7) as month,
+        COUNT(*) as entry_count,
+        SUM(CASE WHEN kind = 'completion' THEN 1 ELSE 0 END) as completion_count,
+        COALESCE(SUM(hours_played), 0) as hours_played
+      FROM diary_entries
+      WHERE user_id = ?
+      GROUP BY month
+      ORDER BY month DESC`,
+      [userId]
+    );
+
+    return result.rows.map(summary => ({
+      ...summary,
+      entry_count: Number(summary.entry_count),
+      completion_count: Number(summary.completion_count),
+      hours_played: Number(summary.hours_played),
+    }));
+  }
+
+  /**
+   * Get the play history of a game in a user's diary
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @returns Entries of the game, oldest plays first, with completion and replay counts
+   * @throws NotFoundError if game not found
+   */
+  async getGameHistory(userId: number, gameId: number): Promise<DiaryGameHistory> {
+    const game = await gameService.getGameById(gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${gameId} not found`);
+    }
+
+    const result = await db.query<DiaryEntry>(
+      `SELECT
+        ${DIARY_ENTRY_SQL}
+      FROM diary_entries de
+      JOIN games g ON de.game_id = g.id
+      WHERE de.user_id = ? AND de.game_id = ?
+      ORDER BY de.played_on ASC, de.id ASC`,
+      [userId, gameId]
+    );
+
+    const entries = result.rows.map(entry => this.formatEntry(entry));
+
+    return {
+      game_id: gameId,
+      entries,
+      completion_count: entries.filter(entry => entry.kind === "completion").length,
+      replay_count: entries.filter(entry => entry.kind === "completion" && entry.is_replay).length,
+      hours_played: entries.reduce((hours, entry) => hours + (entry.hours_played || 0), 0),
+    };
+  }
+
+  /**
+   * Get a diary entry
+   * @param userId - Owner of the diary
+   * @param entryId - Entry ID
+   * @returns Diary entry or null if not found in this diary
+   */
+  async getEntry(userId: number, entryId: number): Promise<DiaryEntry | null> {
+    const result = await db.query<DiaryEntry>(
+      `SELECT
+        ${DIARY_ENTRY_SQL}
+      FROM diary_entries de
+      JOIN games g ON de.game_id = g.id
+      WHERE de.id = ? AND de.user_id = ?`,
+      [entryId, userId]
+    );
+
+    return result.rows[0] ? this.formatEntry(result.rows[0]) : null;
+  }
+
+  /**
+   * Log a play session or completion
+   * Unless told otherwise, an entry is a replay when the user logged a completion of the game before it
+   * (see DIARY_ENTRY_SQL)
+   * @param userId - User ID
+   * @param input - Logged play
+   * @returns Created diary entry
+   * @throws NotFoundError if game not found
+   */
+  async logEntry(userId: number, input: DiaryEntryInput): Promise<DiaryEntry> {
+    const game = await gameService.getGameById(input.gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${input.gameId} not found`);
+    }
+
+    const now = new Date().toISOString();
+
+    const entryId = await db.insert("diary_entries", {
+      user_id: userId,
+      game_id: input.gameId,
+      kind: input.kind,
+      played_on: input.playedOn,
+      platform: input.platform ?? null,
+      hours_played: input.hoursPlayed ?? null,
+      rating: input.rating ?? null,
+      note: input.note ?? null,
+      replay_override: input.replay ?? null,
+      created_at: now,
+      updated_at: now,
+    });
+
+    const entry = await this.getEntry(userId, entryId);
+    if (!entry) {
+      throw new Error("Failed to retrieve created diary entry");
+    }
+
+    return entry;
+  }
+
+  /**
+   * Update a diary entry
+   * Replays follow the new dates and kinds of entries, unless the client chose otherwise
+   * @param userId - Owner of the diary
+   * @param entryId - Entry ID
+   * @param changes - Fields to change (the game of an entry cannot change)
+   * @returns Updated diary entry
+   * @throws NotFoundError if the entry doesn't exist in this diary
+   */
+  async updateEntry(
+    userId: number,
+    entryId: number,
+    changes: Partial<Omit<DiaryEntryInput, "gameId">>
+  ): Promise<DiaryEntry> {
+    const existingEntry = await this.getEntry(userId, entryId);
+    if (!existingEntry) {
+      throw new NotFoundError(`Diary entry with ID ${entryId} not found`);
+    }
+
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (changes.kind !== undefined) {
+      updateData.kind = changes.kind;
+    }
+
+    if (changes.playedOn !== undefined) {
+      updateData.played_on = changes.playedOn;
+    }
+
+    if (changes.platform !== undefined) {
+      updateData.platform = changes.platform;
+    }
+
+    if (changes.hoursPlayed !== undefined) {
+      updateData.hours_played = changes.hoursPlayed;
+    }
+
+    if (changes.rating !== undefined) {
+      updateData.rating = changes.rating;
+    }
+
+    if (changes.note !== undefined) {
+      updateData.note = changes.note;
+    }
+
+    if (changes.replay !== undefined) {
+      updateData.replay_override = changes.replay;
+    }
+
+    await db.update("diary_entries", updateData, "id = ?", [entryId]);
+
+    const updatedEntry = await this.getEntry(userId, entryId);
+    if (!updatedEntry) {
+      throw new Error("Failed to retrieve updated diary entry");
+    }
+
+    return updatedEntry;
+  }
+
+  /**
+   * Delete a diary entry
+   * @param userId - Owner of the diary
+   * @param entryId - Entry ID
+   * @throws NotFoundError if the entry doesn't exist in this diary
+   */
+  async deleteEntry(userId: number, entryId: number): Promise<void> {
+    const deleted = await db.delete("diary_entries", "id = ? AND user_id = ?", [entryId, userId]);
+
+    if (deleted === 0) {
+      throw new NotFoundError(`Diary entry with ID ${entryId} not found`);
+    }
+  }
+
+  /**
+   * Normalize the columns of a diary entry row
+   * (SQLite returns booleans as integers, PostgreSQL returns NUMERIC values as strings)
+   * @param entry - Diary entry row
+   * @returns Diary entry, without the stored replay choice
+   */
+  private formatEntry({ replay_override: _, ...entry }: DiaryEntry): DiaryEntry {
+    return {
+      ...entry,
+      hours_played: entry.hours_played === null ? null : Number(entry.hours_played),
+      rating: entry.rating === null ? null : Number(entry.rating),
+      is_replay: Boolean(entry.is_replay),
+    };
+  }
+}
+
+// Create and export a singleton instance
+const diaryService = new DiaryService();
+export default diaryService;
@@ -0,0 +1,163 @@
+/**
+ * Feed Service
+ *
+ * This service builds the activity feed of a user from the people they follow:
+ * - New reviews
+ * - Library rating changes
+ * - Library status changes
+ * Events are merged in reverse-chronological order and paged with keyset cursors.
+ */
+
+import db from "./database-service.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+import { redactSpoilers } from "../utils/spoilers.ts";
+
+/**
+ * Kind of activity in the feed
+ */
+export type FeedEventType = "review" | "rating" | "status";
+
+/**
+ * Feed event interface
+ */
+export interface FeedEvent extends RowObject {
+  event_type: FeedEventType;
+  event_id: number;
+  event_key: string;
+  user_id: number;
+  username: string;
+  game_id: number;
+  game_title: string | null;
+  game_cover_url: string | null;
+  rating: number | null;
+  status: string | null;
+  content: string | null;
+  contains_spoilers: boolean;
+  spoilers_redacted?: boolean;
+  occurred_at: string;
+}
+
+/**
+ * Sort key of the feed, newest events first
+ */
+const FEED_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_occurred_at", direction: "DESC", internal: true },
+  { column: "event_key", direction: "DESC" },
+];
+
+/**
+ * Union of every activity source, restricted to users followed by the reader.
+ * Each branch selects the same columns so the sources can be merged and sorted together.
+ */
+const FEED_EVENTS_SQL = `
+  SELECT
+    'review' as event_type,
+    gr.id as event_id,
+    'review:' || gr.id as event_key,
+    gr.user_id,
+    u.username,
+    CAST(gr.game_id AS INTEGER) as game_id,
+    g.title as game_title,
+    g.cover_url as game_cover_url,
+    gr.rating,
+    CAST(NULL AS TEXT) as status,
+    gr.content,
+    gr.contains_spoilers,
+    gr.created_at as occurred_at
+  FROM game_reviews gr
+  JOIN users u ON gr.user_id = u.id
+  LEFT JOIN games g ON g.id = CAST(gr.game_id AS INTEGER)
+  WHERE gr.user_id IN (SELECT followed_id FROM user_follows WHERE follower_id = ?)
+    AND gr.hidden_at IS NULL
+
+  UNION ALL
+
+  SELECT
+    'rating' as event_type,
+    ugr.id as event_id,
+    'rating:' || ugr.id as event_key,
+    ugr.user_id,
+    u.username,
+    ugr.game_id,
+    g.title as game_title,
+    g.cover_url as game_cover_url,
+    ugr.rating,
+    CAST(NULL AS TEXT) as status,
+    CAST(NULL AS TEXT) as content,
+    FALSE as contains_spoilers,
+    ugr.rated_at as occurred_at
+  FROM user_game_ratings ugr
+  JOIN users u ON ugr.user_id = u.id
+  LEFT JOIN games g ON g.id = ugr.game_id
+  WHERE ugr.rating IS NOT NULL
+    AND ugr.rated_at IS NOT NULL
+    AND ugr.user_id IN (SELECT followed_id FROM user_follows WHERE follower_id = ?)
+
+  UNION ALL
+
+  SELECT
+    'status' as event_type,
+    lsh.id as event_id,
+    'status:' || lsh.id as event_key,
+    lsh.user_id,
+    u.username,
+    lsh.game_id,
+    g.title as game_title,
+    g.cover_url as game_cover_url,
+    CAST(NULL AS INTEGER) as rating,
+    lsh.status,
+    CAST(NULL AS TEXT) as content,
+    FALSE as contains_spoilers,
+    lsh.changed_at as occurred_at
+  FROM library_status_history lsh
+  JOIN users u ON lsh.user_id = u.id
+  LEFT JOIN games g ON g.id = lsh.game_id
+  WHERE lsh.user_id IN (SELECT followed_id FROM user_follows WHERE follower_id = ?)
+`;
+
+/**
+ * Feed service class
+ */
+export class FeedService {
+  /**
+   * Get the activity feed of a user
+   * @param userId - Reader of the feed
+   * @param page - Requested page
+   * @param revealSpoilers - Return the full review content instead of redacting spoilers
+   * @returns Page of events, newest first
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getFeed(userId: number, page: CursorPageRequest, revealSpoilers = false): Promise<CursorPage<FeedEvent>> {
+    const result = await db.queryPage<FeedEvent>(
+      `SELECT feed.*, CAST(feed.occurred_at AS TEXT) as sort_occurred_at FROM (${FEED_EVENTS_SQL}) feed`,
+      [userId, userId, userId],
+      FEED_CURSOR_KEYS,
+      page
+    );
+
+    return { ...result, items: result.items.map(event => this.formatEvent(event, revealSpoilers)) };
+  }
+
+  /**
+   * Redact the spoilers of a review event unless they are revealed
+   * @param event - Feed event
+   * @param revealSpoilers - Keep the full review content
+   * @returns Feed event as returned to the reader
+   */
+  private formatEvent(event: FeedEvent, revealSpoilers: boolean): FeedEvent {
+    const containsSpoilers = Boolean(event.contains_spoilers);
+
+    if (event.content === null || revealSpoilers) {
+      return { ...event, contains_spoilers: containsSpoilers };
+    }
+
+    const { content, redacted } = redactSpoilers(event.content, containsSpoilers);
+
+    return { ...event, content, contains_spoilers: containsSpoilers, spoilers_redacted: redacted };
+  }
+}
+
+// Create and export a singleton instance
+const feedService = new FeedService();
+export default feedService;
@@ -0,0 +1,164 @@
+/**
+ * Follow Service
+ *
+ * This service handles the follow graph between users:
+ * - Following and unfollowing users
+ * - Follower and following listings
+ */
+
+import db from "./database-service.ts";
+import userService from "./user-service.ts";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Public profile of a user in a follow listing
+ */
+export interface FollowUser extends RowObject {
+  id: number;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  followed_at: string;
+}
+
+/**
+ * Sort key of follower and followed user listings, most recent follows first
+ */
+const FOLLOW_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_followed_at", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Follow service class
+ */
+export class FollowService {
+  /**
+   * Follow a user
+   * @param followerId - User who follows
+   * @param followedId - User being followed
+   * @throws BadRequestError if a user tries to follow themselves
+   * @throws NotFoundError if the followed user doesn't exist
+   * @throws ConflictError if the user is already followed
+   */
+  async follow(followerId: number, followedId: number): Promise<void> {
+    if (followerId === followedId) {
+      throw new BadRequestError("You cannot follow yourself");
+    }
+
+    const followedUser = await userService.findById(followedId);
+    if (!followedUser) {
+      throw new NotFoundError(`User with ID ${followedId} not found`);
+    }
+
+    if (await this.isFollowing(followerId, followedId)) {
+      throw new ConflictError("You are already following this user");
+    }
+
+    await db.query(
+      "INSERT INTO user_follows (follower_id, followed_id, created_at) VALUES (?, ?, ?)",
+      [followerId, followedId, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Unfollow a user
+   * @param followerId - User who follows
+   * @param followedId - User being followed
+   * @returns True if the follow was removed
+   * @throws NotFoundError if the user is not followed
+   */
+  async unfollow(followerId: number, followedId: number): Promise<boolean> {
+    const result = await db.delete(
+      "user_follows",
+      "follower_id = ? AND followed_id = ?",
+      [followerId, followedId]
+    );
+
+    if (result === 0) {
+      throw new NotFoundError("You are not following this user");
+    }
+
+    return true;
+  }
+
+  /**
+   * Check whether a user follows another
+   * @param followerId - User who follows
+   * @param followedId - User being followed
+   * @returns True if the follow exists
+   */
+  async isFollowing(followerId: number, followedId: number): Promise<boolean> {
+    const result = await db.query<{ count: number }>(
+      "SELECT COUNT(*) as count FROM user_follows WHERE follower_id = ? AND followed_id = ?",
+      [followerId, followedId]
+    );
+
+    return Number(result.rows[0]?.count || 0) > 0;
+  }
+
+  /**
+   * Get the users following a user
+   * @param userId - User ID
+   * @param page - Requested page
+   * @returns Followers, most recent first
+   */
+  async getFollowers(userId: number, page: CursorPageRequest): Promise<CursorPage<FollowUser>> {
+    return await this.getFollowList("followed_id", "follower_id", userId, page);
+  }
+
+  /**
+   * Get the users a user follows
+   * @param userId - User ID
+   * @param page - Requested page
+   * @returns Followed users, most recent first
+   */
+  async getFollowing(userId: number, page: CursorPageRequest): Promise<CursorPage<FollowUser>> {
+    return await this.getFollowList("follower_id", "followed_id", userId, page);
+  }
+
+  /**
+   * Get one side of the follow graph for a user
+   * @param matchColumn - Column holding the given user
+   * @param listColumn - Column holding the users to list
+   * @param userId - User ID
+   * @param page - Requested page
+   * @returns Page of users
+   * @throws NotFoundError if the user doesn't exist
+   * @throws BadRequestError if the cursor is malformed
+   */
+  private async getFollowList(
+    matchColumn: "follower_id" | "followed_id",
+    listColumn: "follower_id" | "followed_id",
+    userId: number,
+    page: CursorPageRequest
+  ): Promise<CursorPage<FollowUser>> {
+    const user = await userService.findById(userId);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    // Get users with pagination
+    return await db.queryPage<FollowUser>(
+      `SELECT
+        u.id,
+        u.username,
+        u.avatar_url,
+        u.bio,
+        uf.created_at as followed_at,
+        COALESCE(CAST(uf.created_at AS TEXT), '') as sort_followed_at
+      FROM user_follows uf
+      JOIN users u ON uf.${listColumn} = u.id
+      WHERE uf.${matchColumn} = ?`,
+      [userId],
+      FOLLOW_CURSOR_KEYS,
+      page
+    );
+  }
+}
+
+// Create and export a singleton instance
+const followService = new FollowService();
+export default followService;
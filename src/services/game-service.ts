@@ -8,9 +8,17 @@
  */
 
 import db from "./database-service.ts";
-import { NotFoundError } from "../utils/errors.ts";
+import { BadRequestError, NotFoundError } from "../utils/errors.ts";
 import logger from "../utils/logger.ts";
 import { RowObject } from "./database-service.ts";
+import tagService, { GameTagInput, TAG_FILTER_SQL } from "./tag-service.ts";
+import reviewEventService, { ReviewEventType } from "./review-event-service.ts";
+import ratingAggregateService from "./rating-aggregate-service.ts";
+import searchService from "./search-service.ts";
+import { BROWSE, RATINGS, REVIEWS } from "../config/constants.ts";
+import { redactSpoilers } from "../utils/spoilers.ts";
+import { formatRating, RatingScale } from "../utils/ratings.ts";
+import { CursorKey, CursorPage, CursorPageRequest, decodePageCursor } from "../utils/pagination.ts";
 
 /**
  * Game interface
@@ -19,6 +27,8 @@ export interface Game extends RowObject {
   id: number;
   external_id: string;
   title: string;
+  developer: string | null;
+  publisher: string | null;
   cover_url: string | null;
   release_date: string | null;
   description: string | null;
@@ -33,19 +43,131 @@ export interface GameReview extends RowObject {
   id: number;
   game_id: number;
   user_id: number;
-  rating: number;
+  rating: number; // Internal scale, see utils/ratings.ts
   content: string;
   created_at: string;
   updated_at: string;
+  hidden_at: string | null;
+  contains_spoilers: boolean;
   username?: string;
+  like_count?: number;
+  comment_count?: number;
+  spoilers_redacted?: boolean;
 }
 
+/**
+ * Order in which a game's reviews can be listed
+ */
+export type ReviewSort = typeof REVIEWS.SORT_OPTIONS[number];
+
+/**
+ * Like and comment counts of a review aliased "gr"
+ */
+const REVIEW_ENGAGEMENT_SQL = `
+  (SELECT COUNT(*) FROM review_likes rl WHERE rl.review_id = gr.id) as like_count,
+  (SELECT COUNT(*) FROM review_comments rc WHERE rc.review_id = gr.id) as comment_count`;
+
+/**
+ * Sort key of review listings, newest first (sort_created_at selected as CAST(gr.created_at AS TEXT))
+ */
+const REVIEW_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_created_at", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Bayesian score of a game joined with its rating aggregate aliased "ra":
+ * (prior weight × prior mean + sum of ratings) / (prior weight + number of ratings).
+ * Games with few reviews are pulled towards the prior mean, so a single perfect review
+ * doesn't outrank hundreds of excellent ones. Parameters: [weight × mean, weight]
+ * (the casts type the parameters for PostgreSQL and keep SQLite from doing an integer division)
+ */
+const WEIGHTED_SCORE_SQL = `(CAST(? AS DOUBLE PRECISION) + COALESCE(ra.rating_sum, 0))
+        / (CAST(? AS DOUBLE PRECISION) + COALESCE(ra.review_count, 0)) as weighted_score`;
+
+/**
+ * Rating columns of a game (aliased g), read from its materialized aggregate
+ */
+const GAME_RATING_SQL = `COALESCE(ra.avg_rating, 0) as avg_rating,
+        COALESCE(ra.review_count, 0) as review_count,
+        ${WEIGHTED_SCORE_SQL}`;
+
 /**
  * Game with rating information
  */
 export interface GameWithRating extends Game {
   avg_rating: number;
   review_count: number;
+  weighted_score: number;
+}
+
+/**
+ * Rating statistics of a game
+ */
+export interface GameRatingStats {
+  avg_rating: number;
+  review_count: number;
+  weighted_score: number;
+}
+
+/**
+ * Number of ratings in a histogram bin
+ */
+export interface RatingHistogramBin {
+  rating: number;
+  count: number;
+}
+
+/**
+ * Filters of the game browser, combined with AND
+ */
+export interface GameBrowseFilters {
+  /** First release year, inclusive */
+  yearFrom?: number;
+  /** Last release year, inclusive */
+  yearTo?: number;
+  /** Only games with a known release date */
+  released?: boolean;
+  tag?: string;
+  developer?: string;
+  publisher?: string;
+  /** Minimum average rating, on the internal scale */
+  minRating?: number;
+  minReviews?: number;
+}
+
+/**
+ * Field the game browser can sort by
+ */
+export type GameBrowseSort = typeof BROWSE.SORT_OPTIONS[number];
+
+/**
+ * Filter dimension of the game browser
+ */
+type GameBrowseDimension = "year" | "tag" | "developer" | "publisher" | "rating" | "reviews";
+
+/**
+ * Number of games matching a facet value
+ */
+export interface GameFacetValue {
+  value: string | number;
+  count: number;
+}
+
+/**
+ * Facet counts of the game browser
+ * Each facet counts the games matching every filter except its own, so clients can show
+ * how many games each alternative value would return
+ */
+export interface GameBrowseFacets {
+  release_years: GameFacetValue[];
+  tags: GameFacetValue[];
+  developers: GameFacetValue[];
+  publishers: GameFacetValue[];
+  /** Games rated at least each whole point of the presentation scale */
+  min_rating: GameFacetValue[];
+  /** Games with at least each of BROWSE.REVIEW_COUNT_THRESHOLDS reviews */
+  min_reviews: GameFacetValue[];
 }
 
 /**
@@ -88,9 +210,12 @@ export class GameService {
   async createOrUpdateGame(gameData: {
     external_id: string;
     title: string;
+    developer?: string | null;
+    publisher?: string | null;
     cover_url?: string | null;
     release_date?: string | null;
     description?: string | null;
+    tags?: GameTagInput[];
   }): Promise<Game> {
     // Check if game already exists
     const existingGame = await this.getGameByExternalId(gameData.external_id);
@@ -102,6 +227,14 @@ export class GameService {
         updated_at: new Date().toISOString(),
       };
       
+      if (gameData.developer !== undefined) {
+        updateData.developer = gameData.developer;
+      }
+      
+      if (gameData.publisher !== undefined) {
+        updateData.publisher = gameData.publisher;
+      }
+      
       if (gameData.cover_url !== undefined) {
         updateData.cover_url = gameData.cover_url;
       }
@@ -116,6 +249,11 @@ export class GameService {
       
       await db.update("games", updateData, "id = ?", [existingGame.id]);
       
+      // Replace tags only when the source provided them
+      if (gameData.tags !== undefined) {
+        await tagService.setGameTags(existingGame.id, gameData.tags);
+      }
+      
       // Retrieve updated game
       const updatedGame = await this.getGameById(existingGame.id);
       if (!updatedGame) {
@@ -130,6 +268,8 @@ export class GameService {
       const gameId = await db.insert("games", {
         external_id: gameData.external_id,
         title: gameData.title,
+        developer: gameData.developer || null,
+        publisher: gameData.publisher || null,
         cover_url: gameData.cover_url || null,
         release_date: gameData.release_date || null,
         description: gameData.description || null,
@@ -137,6 +277,10 @@ export class GameService {
         updated_at: now,
       });
       
+      if (gameData.tags !== undefined) {
+        await tagService.setGameTags(gameId, gameData.tags);
+      }
+      
       // Retrieve created game
       const createdGame = await this.getGameById(gameId);
       if (!createdGame) {
@@ -149,147 +293,186 @@ export class GameService {
   
   /**
    * Get games with rating information
-   * @param limit - Maximum number of games to return
-   * @param offset - Number of games to skip
+   * @param page - Requested page
    * @param sortBy - Sort field
    * @param sortOrder - Sort order
-   * @returns List of games with ratings
+   * @param filters - Filters to apply (optional)
+   * @returns Page of games with ratings
+   * @throws BadRequestError if the cursor is malformed
    */
   async getGamesWithRatings(
-    limit = 20,
-    offset = 0,
-    sortBy = "title",
-    sortOrder = "ASC"
-  ): Promise<{
-    games: GameWithRating[];
-    total: number;
-  }> {
+    page: CursorPageRequest,
+    sortBy: GameBrowseSort = "title",
+    sortOrder: "ASC" | "DESC" = "ASC",
+    filters: GameBrowseFilters = {}
+  ): Promise<CursorPage<GameWithRating>> {
     // Validate sort parameters to prevent SQL injection
-    const validSortFields = ["title", "release_date", "avg_rating", "review_count"];
-    const validSortOrders = ["ASC", "DESC"];
+    const actualSortBy = BROWSE.SORT_OPTIONS.includes(sortBy) ? sortBy : "title";
+    const actualSortOrder = sortOrder === "DESC" ? "DESC" : "ASC";
     
-    const actualSortBy = validSortFields.includes(sortBy) ? sortBy : "title";
-    const actualSortOrder = validSortOrders.includes(sortOrder) ? sortOrder : "ASC";
+    const { where, params } = this.getBrowseConditions(filters);
+    const keys = this.getGameCursorKeys(actualSortBy, actualSortOrder);
     
-    // Get total count
-    const countResult = await db.query<{ count: number }>(
-      "SELECT COUNT(*) as count FROM games"
-    );
-    const total = countResult.rows[0]?.count || 0;
+    // Games without a release date come last in both directions
+    const releaseSortSql = actualSortBy === "release_date"
+      ? `,
+        CASE WHEN g.release_date IS NULL THEN 1 ELSE 0 END as sort_undated,
+        COALESCE(CAST(g.release_date AS TEXT), '') as sort_release_date`
+      : "";
+    
+    // The default prior mean moves as reviews come in: the cursors of a listing by weighted score
+    // carry the mean of its first page, so later pages keep comparing the same scores
+    let priorMean: number | undefined;
+    if (actualSortBy === "weighted_score") {
+      priorMean = page.cursor ? Number(decodePageCursor(page.cursor, keys).values[0]) : await this.getPriorMean();
+      if (!isFinite(priorMean)) {
+        throw new BadRequestError("Invalid pagination cursor");
+      }
+    }
+    const priorSortSql = priorMean !== undefined ? `,
+        CAST(? AS DOUBLE PRECISION) as sort_prior_mean` : "";
     
     // Get games with ratings
-    const result = await db.query<GameWithRating>(
+    const result = await db.queryPage<GameWithRating>(
       `SELECT 
         g.*,
-        COALESCE(AVG(gr.rating), 0) as avg_rating,
-        COUNT(gr.id) as review_count
+        ${GAME_RATING_SQL}${releaseSortSql}${priorSortSql}
       FROM games g
-      LEFT JOIN game_reviews gr ON g.id = gr.game_id
-      GROUP BY g.id
-      ORDER BY ${actualSortBy} ${actualSortOrder}
-      LIMIT ? OFFSET ?`,
-      [limit, offset]
+      LEFT JOIN game_rating_aggregates ra ON ra.game_id = g.id
+      ${where}`,
+      [
+        ...await this.getWeightedScoreParams(priorMean),
+        ...(priorMean !== undefined ? [priorMean] : []),
+        ...params,
+      ],
+      keys,
+      page
     );
     
-    // Format ratings to one decimal place
-    const games = result.rows.map(game => ({
-      ...game,
-      avg_rating: Number(game.avg_rating.toFixed(1)),
-    }));
-    
-    return { games, total };
+    return { ...result, items: result.items.map(game => this.formatGameRatings(game)) };
   }
   
   /**
-   * Search games
+   * Search games by title, developer and description, most relevant first
+   * Matching ignores case and accents, accepts word prefixes and tolerates typos (see search-service.ts)
    * @param query - Search query
-   * @param limit - Maximum number of games to return
-   * @param offset - Number of games to skip
-   * @returns List of games matching the search query
+   * @param page - Requested page
+   * @param tag - Only return games carrying this tag (optional)
+   * @returns Page of games matching the search query
+   * @throws BadRequestError if the cursor is malformed
    */
-  async searchGames(
-    query: string,
-    limit = 20,
-    offset = 0
-  ): Promise<{
-    games: GameWithRating[];
-    total: number;
-  }> {
-    const searchTerm = `%${query}%`;
-    
-    // Get total count
-    const countResult = await db.query<{ count: number }>(
-      "SELECT COUNT(*) as count FROM games WHERE title LIKE ?",
-      [searchTerm]
-    );
-    const total = countResult.rows[0]?.count || 0;
+  async searchGames(query: string, page: CursorPageRequest, tag?: string): Promise<CursorPage<GameWithRating>> {
+    const matches = await searchService.searchGames(query, page, { tag });
+    const ids = matches.items;
     
-    // Get games matching search query with ratings
+    if (ids.length === 0) {
+      return { ...matches, items: [] };
+    }
+    
+    // Get the matching games with ratings
     const result = await db.query<GameWithRating>(
       `SELECT 
         g.*,
-        COALESCE(AVG(gr.rating), 0) as avg_rating,
-        COUNT(gr.id) as review_count
+        ${GAME_RATING_SQL}
       FROM games g
-      LEFT JOIN game_reviews gr ON g.id = gr.game_id
-      WHERE g.title LIKE ?
-      GROUP BY g.id
-      ORDER BY g.title ASC
-      LIMIT ? OFFSET ?`,
-      [searchTerm, limit, offset]
+      LEFT JOIN game_rating_aggregates ra ON ra.game_id = g.id
+      WHERE g.id IN (${ids.map(() => "?").join(", ")})`,
+      [...await this.getWeightedScoreParams(), ...ids]
     );
     
-    // Format ratings to one decimal place
-    const games = result.rows.map(game => ({
-      ...game,
-      avg_rating: Number(game.avg_rating.toFixed(1)),
-    }));
+    // Keep the relevance order of the search
+    const gamesById = new Map(result.rows.map(game => [Number(game.id), this.formatGameRatings(game)]));
+    const games = ids
+      .map(id => gamesById.get(Number(id)))
+      .filter((game): game is GameWithRating => game !== undefined);
     
-    return { games, total };
+    return { ...matches, items: games };
+  }
+  
+  /**
+   * Browse games with combined filters, and count the games matching each facet value
+   * @param filters - Filters to apply
+   * @param page - Requested page
+   * @param sort - Sort field
+   * @param order - Sort order
+   * @param scale - Scale of the rating facet
+   * @returns Page of games with ratings, and facet counts
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async browseGames(
+    filters: GameBrowseFilters,
+    page: CursorPageRequest,
+    sort: GameBrowseSort = BROWSE.DEFAULT_SORT,
+    order: "ASC" | "DESC" = "DESC",
+    scale: RatingScale = RATINGS.DEFAULT_SCALE
+  ): Promise<CursorPage<GameWithRating> & { facets: GameBrowseFacets }> {
+    const games = await this.getGamesWithRatings(page, sort, order, filters);
+    
+    // Whole points of the presentation scale, on the internal scale
+    const ratingThresholds = Array.from({ length: scale - 1 }, (_, index) => (index + 1) * (RATINGS.MAX_RATING / scale));
+    
+    const facets: GameBrowseFacets = {
+      release_years: await this.getFacetValues(
+        filters,
+        "year",
+        "SUBSTR(CAST(g.release_date AS TEXT), 1, 4)",
+        "value DESC"
+      ),
+      tags: await this.getFacetValues(filters, "tag", "t.name", "count DESC, value ASC"),
+      developers: await this.getFacetValues(filters, "developer", "g.developer", "count DESC, value ASC"),
+      publishers: await this.getFacetValues(filters, "publisher", "g.publisher", "count DESC, value ASC"),
+      min_rating: (await this.getThresholdCounts(filters, "rating", "COALESCE(ra.avg_rating, 0)", ratingThresholds))
+        .map(facet => ({ ...facet, value: formatRating(facet.value, scale) })),
+      min_reviews: await this.getThresholdCounts(
+        filters,
+        "reviews",
+        "COALESCE(ra.review_count, 0)",
+        BROWSE.REVIEW_COUNT_THRESHOLDS
+      ),
+    };
+    
+    return { ...games, facets };
   }
   
   /**
    * Get game reviews
    * @param gameId - Game ID
-   * @param limit - Maximum number of reviews to return
-   * @param offset - Number of reviews to skip
-   * @returns List of reviews for the game
+   * @param page - Requested page
+   * @param sort - Newest first, or most liked first
+   * @param revealSpoilers - Return the full content instead of redacting spoilers
+   * @returns Page of reviews for the game, with their like and comment counts
+   * @throws BadRequestError if the cursor is malformed
    */
   async getGameReviews(
     gameId: number,
-    limit = 20,
-    offset = 0
-  ): Promise<{
-    reviews: GameReview[];
-    total: number;
-  }> {
+    page: CursorPageRequest,
+    sort: ReviewSort = REVIEWS.DEFAULT_SORT,
+    revealSpoilers = false
+  ): Promise<CursorPage<GameReview>> {
     // Check if game exists
     const game = await this.getGameById(gameId);
     if (!game) {
       throw new NotFoundError(`Game with ID ${gameId} not found`);
     }
     
-    // Get total count
-    const countResult = await db.query<{ count: number }>(
-      "SELECT COUNT(*) as count FROM game_reviews WHERE game_id = ?",
-      [gameId]
-    );
-    const total = countResult.rows[0]?.count || 0;
-    
-    // Get reviews with usernames
-    const result = await db.query<GameReview>(
+    // Get reviews with usernames (hidden reviews are only visible to moderators)
+    const keys = sort === "most_liked"
+      ? [{ column: "like_count", direction: "DESC" as const }, ...REVIEW_CURSOR_KEYS]
+      : REVIEW_CURSOR_KEYS;
+    const result = await db.queryPage<GameReview>(
       `SELECT 
         gr.*,
-        u.username
+        u.username,${REVIEW_ENGAGEMENT_SQL},
+        CAST(gr.created_at AS TEXT) as sort_created_at
       FROM game_reviews gr
       JOIN users u ON gr.user_id = u.id
-      WHERE gr.game_id = ?
-      ORDER BY gr.created_at DESC
-      LIMIT ? OFFSET ?`,
-      [gameId, limit, offset]
+      WHERE gr.game_id = ? AND gr.hidden_at IS NULL`,
+      [gameId],
+      keys,
+      page
     );
     
-    return { reviews: result.rows, total };
+    return { ...result, items: result.items.map(review => this.formatListedReview(review, revealSpoilers)) };
   }
   
   /**
@@ -297,10 +480,7 @@ export class GameService {
    * @param gameId - Game ID
    * @returns Rating statistics
    */
-  async getGameRatingStats(gameId: number): Promise<{
-    avg_rating: number;
-    review_count: number;
-  }> {
+  async getGameRatingStats(gameId: number): Promise<GameRatingStats> {
     // Check if game exists
     const game = await this.getGameById(gameId);
     if (!game) {
@@ -308,26 +488,67 @@ export class GameService {
     }
     
     // Get rating statistics
-    const result = await db.query<{ avg_rating: number; review_count: number }>(
+    const result = await db.query<GameRatingStats>(
       `SELECT 
-        COALESCE(AVG(rating), 0) as avg_rating,
-        COUNT(id) as review_count
-      FROM game_reviews
-      WHERE game_id = ?`,
-      [gameId]
+        ${GAME_RATING_SQL}
+      FROM games g
+      LEFT JOIN game_rating_aggregates ra ON ra.game_id = g.id
+      WHERE g.id = ?`,
+      [...await this.getWeightedScoreParams(), gameId]
     );
     
-    const stats = result.rows[0] || { avg_rating: 0, review_count: 0 };
+    const stats = result.rows[0];
     
-    // Format average rating to one decimal place
+    // Format average rating to one decimal place and weighted score to two
     return {
-      avg_rating: Number(stats.avg_rating.toFixed(1)),
-      review_count: stats.review_count,
+      avg_rating: Number(Number(stats?.avg_rating || 0).toFixed(1)),
+      review_count: Number(stats?.review_count || 0),
+      weighted_score: Number(Number(stats?.weighted_score || 0).toFixed(2)),
     };
   }
   
+  /**
+   * Get the distribution of a game's ratings
+   * Ratings are counted on the presentation scale, rounded to its nearest step
+   * @param gameId - Game ID
+   * @param scale - Presentation scale
+   * @returns One bin per step of the scale, from the lowest rating to the highest
+   * @throws NotFoundError if the game doesn't exist
+   */
+  async getRatingHistogram(gameId: number, scale: RatingScale): Promise<RatingHistogramBin[]> {
+    // Check if game exists
+    const game = await this.getGameById(gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${gameId} not found`);
+    }
+    
+    const result = await db.query<{ rating: number; count: number }>(
+      `SELECT rating, COUNT(*) as count
+      FROM game_reviews
+      WHERE game_id = ? AND hidden_at IS NULL
+      GROUP BY rating`,
+      [gameId]
+    );
+    
+    const bins = new Map<number, number>();
+    for (let rating = RATINGS.STEP; rating <= scale; rating += RATINGS.STEP) {
+      bins.set(rating, 0);
+    }
+    
+    for (const row of result.rows) {
+      const rating = Math.max(
+        RATINGS.STEP,
+        Math.round(formatRating(row.rating, scale) / RATINGS.STEP) * RATINGS.STEP
+      );
+      bins.set(rating, (bins.get(rating) || 0) + Number(row.count));
+    }
+    
+    return [...bins].map(([rating, count]) => ({ rating, count }));
+  }
+  
   /**
    * Create or update a game review
+   * Publishes a new_review or updated_review event
    * @param userId - User ID
    * @param gameId - Game ID
    * @param reviewData - Review data
@@ -339,6 +560,7 @@ export class GameService {
     reviewData: {
       rating: number;
       content: string;
+      containsSpoilers?: boolean;
     }
   ): Promise<GameReview> {
     // Check if game exists
@@ -351,17 +573,22 @@ export class GameService {
     const existingReview = await this.getUserGameReview(userId, gameId);
     
     if (existingReview) {
-      // Update existing review
-      await db.update(
-        "game_reviews",
-        {
-          rating: reviewData.rating,
-          content: reviewData.content,
-          updated_at: new Date().toISOString(),
-        },
-        "id = ?",
-        [existingReview.id]
-      );
+      // Update existing review and the game's rating aggregate together
+      await db.transaction(async () => {
+        await db.update(
+          "game_reviews",
+          {
+            rating: reviewData.rating,
+            content: reviewData.content,
+            // Keep the previous flag when the client doesn't send one
+            contains_spoilers: reviewData.containsSpoilers ?? Boolean(existingReview.contains_spoilers),
+            updated_at: new Date().toISOString(),
+          },
+          "id = ?",
+          [existingReview.id]
+        );
+        await ratingAggregateService.refreshGame(gameId);
+      });
       
       // Retrieve updated review
       const updatedReview = await this.getReviewById(existingReview.id);
@@ -369,18 +596,26 @@ export class GameService {
         throw new Error("Failed to retrieve updated review");
       }
       
+      await this.publishReviewEvent("updated_review", updatedReview, game);
+      
       return updatedReview;
     } else {
-      // Create new review
+      // Create new review and refresh the game's rating aggregate together
       const now = new Date().toISOString();
       
-      const reviewId = await db.insert("game_reviews", {
-        game_id: gameId,
-        user_id: userId,
-        rating: reviewData.rating,
-        content: reviewData.content,
-        created_at: now,
-        updated_at: now,
+      const reviewId = await db.transaction(async () => {
+        const id = await db.insert("game_reviews", {
+          game_id: gameId,
+          user_id: userId,
+          rating: reviewData.rating,
+          content: reviewData.content,
+          contains_spoilers: reviewData.containsSpoilers ?? false,
+          created_at: now,
+          updated_at: now,
+        });
+        await ratingAggregateService.refreshGame(gameId);
+        
+        return id;
       });
       
       // Retrieve created review
@@ -389,18 +624,28 @@ export class GameService {
         throw new Error("Failed to retrieve created review");
       }
       
+      await this.publishReviewEvent("new_review", createdReview, game);
+      
       return createdReview;
     }
   }
   
   /**
    * Delete a game review
+   * Publishes a deleted_review event
    * @param userId - User ID
    * @param reviewId - Review ID
+   * @param canModerate - Whether the user may delete other users' reviews
+   * @param alongside - Further writes committed or rolled back with the deletion (e.g. moderation records)
    * @returns True if review was deleted
    * @throws NotFoundError if review not found or doesn't belong to user
    */
-  async deleteReview(userId: number, reviewId: number): Promise<boolean> {
+  async deleteReview(
+    userId: number,
+    reviewId: number,
+    canModerate = false,
+    alongside?: () => Promise<void>
+  ): Promise<boolean> {
     // Get review
     const review = await this.getReviewById(reviewId);
     if (!review) {
@@ -408,22 +653,85 @@ export class GameService {
     }
     
     // Check if review belongs to user
-    if (review.user_id !== userId) {
+    if (review.user_id !== userId && !canModerate) {
       throw new NotFoundError(`Review with ID ${reviewId} not found for this user`);
     }
     
-    // Delete review
-    const result = await db.delete("game_reviews", "id = ?", [reviewId]);
+    // Delete review and refresh the game's rating aggregate together
+    const result = await db.transaction(async () => {
+      const deleted = await db.delete("game_reviews", "id = ?", [reviewId]);
+      await ratingAggregateService.refreshGame(Number(review.game_id));
+      await alongside?.();
+      
+      return deleted;
+    });
+    
+    if (result > 0) {
+      await this.publishReviewEvent("deleted_review", review, await this.getGameById(review.game_id));
+    }
     
     return result > 0;
   }
   
+  /**
+   * Publish a review event with the game's refreshed rating
+   * Publishing failures are logged, the review mutation has already succeeded
+   * @param type - Kind of event
+   * @param review - Review concerned by the event
+   * @param game - Reviewed game, if still known
+   */
+  private async publishReviewEvent(type: ReviewEventType, review: GameReview, game: Game | null): Promise<void> {
+    try {
+      await reviewEventService.publish(type, {
+        id: String(review.id),
+        gameId: String(review.game_id),
+        userId: review.user_id,
+        username: review.username || "Unknown User",
+        rating: Number(review.rating),
+        content: review.content,
+        containsSpoilers: Boolean(review.contains_spoilers),
+        gameTitle: game?.title,
+        gameCoverUrl: game?.cover_url || undefined,
+        createdAt: review.created_at,
+        updatedAt: review.updated_at,
+      });
+    } catch (error) {
+      logger.error(`Failed to publish ${type} event for review ${review.id}`, error);
+    }
+  }
+  
+  /**
+   * Hide a review from listings, or make it visible again
+   * @param reviewId - Review ID
+   * @param hidden - Whether the review should be hidden
+   * @param alongside - Further writes committed or rolled back with the change (e.g. moderation records)
+   * @throws NotFoundError if review not found
+   */
+  async setReviewHidden(reviewId: number, hidden: boolean, alongside?: () => Promise<void>): Promise<void> {
+    const review = await this.getReviewById(reviewId);
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
+    }
+    
+    // Hidden reviews don't count in the game's rating aggregate
+    await db.transaction(async () => {
+      await db.update(
+        "game_reviews",
+        { hidden_at: hidden ? new Date().toISOString() : null },
+        "id = ?",
+        [reviewId]
+      );
+      await ratingAggregateService.refreshGame(Number(review.game_id));
+      await alongside?.();
+    });
+  }
+  
   /**
    * Get a review by ID
    * @param id - Review ID
    * @returns Review or null if not found
    */
-  private async getReviewById(id: number): Promise<GameReview | null> {
+  async getReviewById(id: number): Promise<GameReview | null> {
     const result = await db.query<GameReview>(
       `SELECT 
         gr.*,
@@ -460,59 +768,76 @@ export class GameService {
   /**
    * Get a user's reviews
    * @param userId - User ID
-   * @param limit - Maximum number of reviews to return
-   * @param offset - Number of reviews to skip
-   * @returns List of reviews by the user
+   * @param page - Requested page
+   * @param revealSpoilers - Return the full content instead of redacting spoilers
+   * @returns Page of reviews by the user, newest first, with their like and comment counts
+   * @throws BadRequestError if the cursor is malformed
    */
   async getUserReviews(
     userId: number,
-    limit = 20,
-    offset = 0
-  ): Promise<{
-    reviews: Array<GameReview & { game_title: string; game_cover_url: string | null }>;
-    total: number;
-  }> {
-    // Get total count
-    const countResult = await db.query<{ count: number }>(
-      "SELECT COUNT(*) as count FROM game_reviews WHERE user_id = ?",
-      [userId]
-    );
-    const total = countResult.rows[0]?.count || 0;
-    
-    // Get reviews with game information
-    const result = await db.query<GameReview & { game_title: string; game_cover_url: string | null }>(
+    page: CursorPageRequest,
+    revealSpoilers = false
+  ): Promise<CursorPage<GameReview & { game_title: string; game_cover_url: string | null }>> {
+    // Get reviews with game information (hidden reviews are only visible to moderators)
+    const result = await db.queryPage<GameReview & { game_title: string; game_cover_url: string | null }>(
       `SELECT 
         gr.*,
         g.title as game_title,
         g.cover_url as game_cover_url,
-        u.username
+        u.username,${REVIEW_ENGAGEMENT_SQL},
+        CAST(gr.created_at AS TEXT) as sort_created_at
       FROM game_reviews gr
       JOIN games g ON gr.game_id = g.id
       JOIN users u ON gr.user_id = u.id
-      WHERE gr.user_id = ?
-      ORDER BY gr.created_at DESC
-      LIMIT ? OFFSET ?`,
-      [userId, limit, offset]
+      WHERE gr.user_id = ? AND gr.hidden_at IS NULL`,
+      [userId],
+      REVIEW_CURSOR_KEYS,
+      page
     );
     
-    return { reviews: result.rows, total };
+    return { ...result, items: result.items.map(review => this.formatListedReview(review, revealSpoilers)) };
+  }
+
+  /**
+   * Prepare a review row for a listing
+   * - Normalizes the rating and the like and comment counts
+   *   (PostgreSQL returns NUMERIC values as strings and COUNT results as bigints)
+   * - Redacts spoilers unless they are revealed
+   * @param review - Review row selected with REVIEW_ENGAGEMENT_SQL
+   * @param revealSpoilers - Keep the full content
+   * @returns Review as listed
+   */
+  private formatListedReview<T extends GameReview>(review: T, revealSpoilers: boolean): T {
+    const containsSpoilers = Boolean(review.contains_spoilers);
+    const { content, redacted } = revealSpoilers
+      ? { content: review.content, redacted: false }
+      : redactSpoilers(review.content, containsSpoilers);
+
+    return {
+      ...review,
+      rating: Number(review.rating),
+      content,
+      contains_spoilers: containsSpoilers,
+      spoilers_redacted: redacted,
+      like_count: Number(review.like_count || 0),
+      comment_count: Number(review.comment_count || 0),
+    };
   }
 
   /**
    * Get popular games sorted by rating or other criteria
-   * @param limit - Maximum number of games to return
-   * @param offset - Number of games to skip
+   * @param page - Requested page
    * @param ordering - Sort order (e.g., "-metacritic", "-avg_rating", "title")
-   * @returns List of games with ratings
+   * @returns Page of games with ratings
+   * @throws BadRequestError if the cursor is malformed
    */
   async getPopularGames(
-    limit = 10,
-    offset = 0,
-    ordering = "-avg_rating"
-  ): Promise<GameWithRating[]> {
+    page: CursorPageRequest,
+    ordering = "-weighted_score"
+  ): Promise<CursorPage<GameWithRating>> {
     // Determine sort field and direction based on ordering
-    let sortField = "avg_rating";
-    let sortDirection = "DESC";
+    let sortField = "weighted_score";
+    let sortDirection: "ASC" | "DESC" = "DESC";
     
     if (ordering.startsWith("-")) {
       sortField = ordering.substring(1);
@@ -523,41 +848,218 @@ export class GameService {
     }
     
     // Map external field names to database fields
-    if (sortField === "metacritic") {
-      sortField = "avg_rating";
+    if (sortField === "metacritic" || sortField === "rating") {
+      sortField = "weighted_score";
     } else if (sortField === "released") {
       sortField = "release_date";
     } else if (sortField === "name") {
       sortField = "title";
     }
     
-    // Validate sort parameters to prevent SQL injection
-    const validSortFields = ["title", "release_date", "avg_rating", "review_count"];
-    const validSortOrders = ["ASC", "DESC"];
+    // Unknown fields fall back to the weighted score
+    const actualSortField = BROWSE.SORT_OPTIONS.find(field => field === sortField) ?? "weighted_score";
     
-    const actualSortField = validSortFields.includes(sortField) ? sortField : "avg_rating";
-    const actualSortOrder = validSortOrders.includes(sortDirection) ? sortDirection : "DESC";
+    return await this.getGamesWithRatings(page, actualSortField, sortDirection);
+  }
+  
+  /**
+   * Get the sort key of a game listing (see getGamesWithRatings)
+   * @param sortBy - Sort field
+   * @param sortOrder - Sort order
+   * @returns Sort key, ending with the title and ID of the games
+   */
+  private getGameCursorKeys(sortBy: GameBrowseSort, sortOrder: "ASC" | "DESC"): CursorKey[] {
+    if (sortBy === "title") {
+      return [{ column: "title", direction: sortOrder }, { column: "id", direction: sortOrder }];
+    }
     
-    // Get games with ratings
-    const result = await db.query<GameWithRating>(
-      `SELECT 
-        g.*,
-        COALESCE(AVG(gr.rating), 0) as avg_rating,
-        COUNT(gr.id) as review_count
+    // The prior mean is the same for every game, it only travels in the cursors (see getGamesWithRatings)
+    const keys: CursorKey[] = sortBy === "release_date"
+      ? [
+        { column: "sort_undated", direction: "ASC", internal: true },
+        { column: "sort_release_date", direction: sortOrder, internal: true },
+      ]
+      : sortBy === "weighted_score"
+      ? [
+        { column: "sort_prior_mean", direction: "ASC", internal: true },
+        { column: "weighted_score", direction: sortOrder },
+      ]
+      : [{ column: sortBy, direction: sortOrder }];
+    
+    return [...keys, { column: "title", direction: "ASC" }, { column: "id", direction: "ASC" }];
+  }
+  
+  /**
+   * Build the WHERE clause of the game browser, for games aliased g joined with their rating aggregate aliased ra
+   * @param filters - Filters to apply
+   * @param exclude - Dimension to leave out, when counting its facet
+   * @returns WHERE clause (empty without filters) and its parameters
+   */
+  private getBrowseConditions(
+    filters: GameBrowseFilters,
+    exclude?: GameBrowseDimension
+  ): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    
+    if (exclude !== "year" && filters.released) {
+      conditions.push("g.release_date IS NOT NULL");
+    }
+    
+    if (exclude !== "year" && filters.yearFrom !== undefined) {
+      conditions.push("g.release_date >= ?");
+      params.push(`${filters.yearFrom}-01-01`);
+    }
+    
+    if (exclude !== "year" && filters.yearTo !== undefined) {
+      conditions.push("g.release_date < ?");
+      params.push(`${filters.yearTo + 1}-01-01`);
+    }
+    
+    if (exclude !== "tag" && filters.tag) {
+      conditions.push(TAG_FILTER_SQL);
+      params.push(filters.tag);
+    }
+    
+    if (exclude !== "developer" && filters.developer) {
+      conditions.push("LOWER(g.developer) = LOWER(?)");
+      params.push(filters.developer);
+    }
+    
+    if (exclude !== "publisher" && filters.publisher) {
+      conditions.push("LOWER(g.publisher) = LOWER(?)");
+      params.push(filters.publisher);
+    }
+    
+    if (exclude !== "rating" && filters.minRating !== undefined) {
+      conditions.push("COALESCE(ra.avg_rating, 0) >= ?");
+      params.push(filters.minRating);
+    }
+    
+    if (exclude !== "reviews" && filters.minReviews !== undefined) {
+      conditions.push("COALESCE(ra.review_count, 0) >= ?");
+      params.push(filters.minReviews);
+    }
+    
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params,
+    };
+  }
+  
+  /**
+   * Count the browsed games per value of a facet, ignoring the facet's own filter
+   * @param filters - Filters of the game browser
+   * @param dimension - Facet dimension
+   * @param valueSql - SQL expression of the facet value (trusted)
+   * @param orderBy - Order of the facet values (trusted)
+   * @returns Facet values with their game counts (games without a value are left out)
+   */
+  private async getFacetValues(
+    filters: GameBrowseFilters,
+    dimension: "year" | "tag" | "developer" | "publisher",
+    valueSql: string,
+    orderBy: string
+  ): Promise<GameFacetValue[]> {
+    const { where, params } = this.getBrowseConditions(filters, dimension);
+    const tagJoin = dimension === "tag"
+      ? `JOIN game_tag_relations gtr ON gtr.game_id = g.id
+      JOIN game_tags t ON t.id = gtr.tag_id`
+      : "";
+    
+    const result = await db.query<{ value: string; count: number }>(
+      `SELECT ${valueSql} as value, COUNT(*) as count
       FROM games g
-      LEFT JOIN game_reviews gr ON g.id = gr.game_id
-      GROUP BY g.id
-      ORDER BY ${actualSortField} ${actualSortOrder}
-      LIMIT ? OFFSET ?`,
-      [limit, offset]
+      LEFT JOIN game_rating_aggregates ra ON ra.game_id = g.id
+      ${tagJoin}
+      ${where ? `${where} AND` : "WHERE"} ${valueSql} IS NOT NULL
+      GROUP BY ${valueSql}
+      ORDER BY ${orderBy}
+      ${dimension === "year" ? "" : `LIMIT ${BROWSE.MAX_FACET_VALUES}`}`,
+      params
     );
     
-    // Format ratings to one decimal place
-    return result.rows.map(game => ({
-      ...game,
-      avg_rating: Number(game.avg_rating.toFixed(1)),
+    return result.rows.map(row => ({
+      value: dimension === "year" ? Number(row.value) : row.value,
+      count: Number(row.count),
     }));
   }
+  
+  /**
+   * Count the browsed games reaching each threshold of a facet, ignoring the facet's own filter
+   * @param filters - Filters of the game browser
+   * @param dimension - Facet dimension
+   * @param valueSql - SQL expression compared with the thresholds (trusted)
+   * @param thresholds - Minimum values to count games for
+   * @returns Thresholds with the number of games reaching them
+   */
+  private async getThresholdCounts(
+    filters: GameBrowseFilters,
+    dimension: "rating" | "reviews",
+    valueSql: string,
+    thresholds: number[]
+  ): Promise<GameFacetValue[]> {
+    if (thresholds.length === 0) {
+      return [];
+    }
+    
+    const { where, params } = this.getBrowseConditions(filters, dimension);
+    const counts = thresholds
+      .map((_, index) => `SUM(CASE WHEN ${valueSql} >= ? THEN 1 ELSE 0 END) as count_${index}`)
+      .join(",\n        ");
+    
+    const result = await db.query<Record<string, number | null>>(
+      `SELECT
+        ${counts}
+      FROM games g
+      LEFT JOIN game_rating_aggregates ra ON ra.game_id = g.id
+      ${where}`,
+      [...thresholds, ...params]
+    );
+    
+    return thresholds.map((threshold, index) => ({
+      value: threshold,
+      count: Number(result.rows[0]?.[`count_${index}`] || 0),
+    }));
+  }
+  
+  /**
+   * Get the prior mean of weighted scores
+   * It is configurable, and defaults to the average of all visible reviews
+   * @returns Prior mean, on the internal scale
+   */
+  private async getPriorMean(): Promise<number> {
+    // Without any review, use the middle of the scale
+    return RATINGS.PRIOR_MEAN ??
+      await ratingAggregateService.getOverallAverage() ??
+      RATINGS.MAX_RATING / 2;
+  }
+  
+  /**
+   * Get the parameters of WEIGHTED_SCORE_SQL
+   * @param priorMean - Prior mean to use, the current one when not given
+   * @returns Prior weight × prior mean, and prior weight
+   */
+  private async getWeightedScoreParams(priorMean?: number): Promise<number[]> {
+    const mean = priorMean ?? await this.getPriorMean();
+    
+    return [RATINGS.PRIOR_WEIGHT * mean, RATINGS.PRIOR_WEIGHT];
+  }
+  
+  /**
+   * Normalize the rating columns of a game row
+   * (PostgreSQL returns NUMERIC values as strings and COUNT results as bigints)
+   * @param game - Game row selected with its ratings
+   * @returns Game with its average rating to one decimal and its weighted score to two
+   */
+  private formatGameRatings<T extends GameWithRating>(game: T): T {
+    return {
+      ...game,
+      avg_rating: Number(Number(game.avg_rating).toFixed(1)),
+      review_count: Number(game.review_count),
+      weighted_score: Number(Number(game.weighted_score).toFixed(2)),
+    };
+  }
 }
 
 // Create and export a singleton instance
@@ -0,0 +1,340 @@
+/**
+ * Job Service
+ *
+ * This service runs the background jobs inside the server:
+ * - Scheduling each job at a fixed interval after its previous run, across restarts
+ * - Recording every run, its counts and its errors in the job_runs table
+ * - Job status and manual runs for admins
+ * A job never overlaps itself within a server; runs are not coordinated between servers.
+ */
+
+import db from "./database-service.ts";
+import catalogueSyncService from "./catalogue-sync-service.ts";
+import { ConflictError, NotFoundError } from "../utils/errors.ts";
+import { JOBS } from "../config/constants.ts";
+import logger from "../utils/logger.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Counts reported by a job at the end of a run
+ */
+export interface JobResult {
+  /** Number of items handled successfully */
+  processed: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Error messages of the failed items */
+  errors: string[];
+}
+
+/**
+ * Background job
+ */
+export interface Job {
+  /** Unique name, used in URLs and in the job_runs table */
+  name: string;
+  /** What the job does, shown to admins */
+  description: string;
+  /** Time between the start of two scheduled runs, in milliseconds */
+  intervalMs: number;
+  /**
+   * Do the job's work
+   * @returns Counts of the run
+   */
+  run(): Promise<JobResult>;
+}
+
+/**
+ * What started a job run
+ */
+export type JobTrigger = "schedule" | "manual";
+
+/**
+ * Job run interface
+ */
+export interface JobRun extends RowObject {
+  id: number;
+  job_name: string;
+  status: "running" | "succeeded" | "failed";
+  triggered_by: JobTrigger;
+  processed_count: number;
+  failed_count: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * State of a job, as shown to admins
+ */
+export interface JobStatus {
+  name: string;
+  description: string;
+  interval_seconds: number;
+  running: boolean;
+  next_run_at: string | null;
+  last_run: JobRun | null;
+  last_success_at: string | null;
+}
+
+/**
+ * Sort key of job run listings, newest first
+ */
+const RUN_CURSOR_KEYS: CursorKey[] = [
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Create the background jobs of the application
+ * @returns Jobs
+ */
+function createJobs(): Job[] {
+  return [
+    {
+      name: "catalogue-sync",
+      description: "Refresh games with stale metadata and import recent releases from the metadata providers",
+      intervalMs: JOBS.CATALOGUE_SYNC.INTERVAL_MS,
+      run: async () => {
+        const result = await catalogueSyncService.sync();
+        return { processed: result.refreshed + result.imported, failed: result.failed, errors: result.errors };
+      },
+    },
+  ];
+}
+
+/**
+ * Job service class
+ */
+export class JobService {
+  private running = new Set<string>();
+  private timers = new Map<string, number>();
+  private nextRuns = new Map<string, Date>();
+
+  constructor(private jobs: Job[]) {}
+
+  /**
+   * Schedule every job; a job runs one interval after its last recorded run, or right away if overdue
+   * Runs left 'running' by a previous process are closed as failed first
+   */
+  async start(): Promise<void> {
+    await db.query(
+      "UPDATE job_runs SET status = 'failed', error = ?, finished_at = ? WHERE status = 'running'",
+      ["Interrupted by a server restart", new Date().toISOString()]
+    );
+
+    for (const job of this.jobs) {
+      const lastRun = await this.getLastRun(job.name);
+      const lastStart = lastRun ? new Date(lastRun.started_at).getTime() : NaN;
+      const delay = isNaN(lastStart) ? 0 : Math.max(lastStart + job.intervalMs - Date.now(), 0);
+
+      this.schedule(job, delay);
+    }
+
+    logger.info(`Background jobs scheduled: ${this.jobs.map(job => job.name).join(", ")}`);
+  }
+
+  /**
+   * Cancel the scheduled runs (runs in progress finish on their own)
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+
+    this.timers.clear();
+    this.nextRuns.clear();
+  }
+
+  /**
+   * Get the state of every job
+   * @returns Job states
+   */
+  async getJobs(): Promise<JobStatus[]> {
+    const statuses: JobStatus[] = [];
+
+    for (const job of this.jobs) {
+      const lastSuccess = await db.query<{ started_at: string }>(
+        "SELECT started_at FROM job_runs WHERE job_name = ? AND status = 'succeeded' ORDER BY id DESC LIMIT 1",
+        [job.name]
+      );
+
+      statuses.push({
+        name: job.name,
+        description: job.description,
+        interval_seconds: Math.round(job.intervalMs / 1000),
+        running: this.running.has(job.name),
+        next_run_at: this.nextRuns.get(job.name)?.toISOString() || null,
+        last_run: await this.getLastRun(job.name),
+        last_success_at: lastSuccess.rows[0]?.started_at || null,
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Get the runs of a job
+   * @param name - Job name
+   * @param page - Requested page
+   * @returns Page of runs, newest first
+   * @throws NotFoundError if the job doesn't exist
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getRuns(name: string, page: CursorPageRequest): Promise<CursorPage<JobRun>> {
+    this.getJob(name);
+
+    return await db.queryPage<JobRun>(
+      "SELECT * FROM job_runs WHERE job_name = ?",
+      [name],
+      RUN_CURSOR_KEYS,
+      page
+    );
+  }
+
+  /**
+   * Start a run of a job now, without waiting for it to finish
+   * @param name - Job name
+   * @returns Started run
+   * @throws NotFoundError if the job doesn't exist
+   * @throws ConflictError if the job is already running
+   */
+  async trigger(name: string): Promise<JobRun> {
+    const job = this.getJob(name);
+
+    if (this.running.has(job.name)) {
+      throw new ConflictError(`Job ${job.name} is already running`);
+    }
+
+    const run = await this.startRun(job, "manual");
+
+    // Failures are recorded with the run
+    this.finishRun(job, run.id);
+
+    return run;
+  }
+
+  /**
+   * Get a job by name
+   * @param name - Job name
+   * @returns Job
+   * @throws NotFoundError if the job doesn't exist
+   */
+  private getJob(name: string): Job {
+    const job = this.jobs.find(job => job.name === name);
+
+    if (!job) {
+      throw new NotFoundError(`Job ${name} not found`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Get the latest run of a job
+   * @param name - Job name
+   * @returns Run or null if the job never ran
+   */
+  private async getLastRun(name: string): Promise<JobRun | null> {
+    const result = await db.query<JobRun>(
+      "SELECT * FROM job_runs WHERE job_name = ? ORDER BY id DESC LIMIT 1",
+      [name]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Schedule the next run of a job
+   * @param job - Job
+   * @param delay - Time until the run, in milliseconds
+   */
+  private schedule(job: Job, delay: number): void {
+    this.nextRuns.set(job.name, new Date(Date.now() + delay));
+    this.timers.set(job.name, setTimeout(async () => {
+      // A manual run in progress takes the place of the scheduled one
+      if (!this.running.has(job.name)) {
+        try {
+          const run = await this.startRun(job, "schedule");
+          await this.finishRun(job, run.id);
+        } catch (error) {
+          logger.error(`Job ${job.name} could not be started`, error);
+        }
+      }
+
+      if (this.timers.has(job.name)) {
+        this.schedule(job, job.intervalMs);
+      }
+    }, delay));
+  }
+
+  /**
+   * Record the start of a run
+   * @param job - Job
+   * @param triggeredBy - What started the run
+   * @returns Started run
+   */
+  private async startRun(job: Job, triggeredBy: JobTrigger): Promise<JobRun> {
+    this.running.add(job.name);
+
+    try {
+      const runId = await db.insert("job_runs", {
+        job_name: job.name,
+        status: "running",
+        triggered_by: triggeredBy,
+        started_at: new Date().toISOString(),
+      });
+
+      const result = await db.query<JobRun>("SELECT * FROM job_runs WHERE id = ?", [runId]);
+      if (!result.rows[0]) {
+        throw new Error("Failed to retrieve created job run");
+      }
+
+      return result.rows[0];
+    } catch (error) {
+      this.running.delete(job.name);
+      throw error;
+    }
+  }
+
+  /**
+   * Do the work of a started run and record its outcome
+   * A run fails when the job throws, or when items failed and none succeeded
+   * @param job - Job
+   * @param runId - Started run
+   */
+  private async finishRun(job: Job, runId: number): Promise<void> {
+    const startedAt = Date.now();
+    let outcome: Record<string, unknown>;
+
+    try {
+      const result = await job.run();
+
+      outcome = {
+        status: result.failed > 0 && result.processed === 0 ? "failed" : "succeeded",
+        processed_count: result.processed,
+        failed_count: result.failed,
+        error: result.errors.length > 0 ? result.errors.slice(0, JOBS.MAX_RECORDED_ERRORS).join("\n") : null,
+      };
+
+      logger.info(
+        `Job ${job.name} finished in ${Date.now() - startedAt} ms: ${result.processed} processed, ${result.failed} failed`
+      );
+    } catch (error) {
+      outcome = { status: "failed", error: error.message };
+      logger.error(`Job ${job.name} failed`, error);
+    }
+
+    try {
+      await db.update("job_runs", { ...outcome, finished_at: new Date().toISOString() }, "id = ?", [runId]);
+    } catch (error) {
+      logger.error(`Failed to record the outcome of job run ${runId}`, error);
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const jobService = new JobService(createJobs());
+export default jobService;
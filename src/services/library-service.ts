@@ -0,0 +1,343 @@
+/**
+ * Library Service
+ *
+ * This service handles a user's game library, backed by user_game_ratings:
+ * - Adding and removing games
+ * - Play-status changes with started/finished dates
+ * - Personal ratings
+ * - Status history and filtered library listings
+ */
+
+import db from "./database-service.ts";
+import gameService from "./game-service.ts";
+import { ConflictError, NotFoundError } from "../utils/errors.ts";
+import { LIBRARY } from "../config/constants.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Play status of a game in a library
+ */
+export type LibraryStatus = typeof LIBRARY.STATUSES[number];
+
+/**
+ * Library entry interface
+ */
+export interface LibraryEntry extends RowObject {
+  id: number;
+  user_id: number;
+  game_id: number;
+  status: LibraryStatus;
+  rating: number | null;
+  review: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  rated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  game_title?: string;
+  game_cover_url?: string | null;
+}
+
+/**
+ * Library status change interface
+ */
+export interface LibraryStatusChange extends RowObject {
+  id: number;
+  user_id: number;
+  game_id: number;
+  status: LibraryStatus;
+  changed_at: string;
+}
+
+/**
+ * Sort key of library listings, most recently updated first
+ */
+const LIBRARY_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_updated_at", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Library service class
+ */
+export class LibraryService {
+  /**
+   * Get a user's library
+   * @param userId - User ID
+   * @param status - Only return games with this status (optional)
+   * @param page - Requested page
+   * @returns Page of library entries with game information, most recently updated first
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getLibrary(
+    userId: number,
+    status: LibraryStatus | undefined,
+    page: CursorPageRequest
+  ): Promise<CursorPage<LibraryEntry>> {
+    const statusFilter = status ? " AND ugr.status = ?" : "";
+    const filterParams = status ? [userId, status] : [userId];
+
+    // Get entries with game information
+    return await db.queryPage<LibraryEntry>(
+      `SELECT
+        ugr.*,
+        g.title as game_title,
+        g.cover_url as game_cover_url,
+        COALESCE(CAST(ugr.updated_at AS TEXT), '') as sort_updated_at
+      FROM user_game_ratings ugr
+      JOIN games g ON ugr.game_id = g.id
+      WHERE ugr.user_id = ?${statusFilter}`,
+      filterParams,
+      LIBRARY_CURSOR_KEYS,
+      page
+    );
+  }
+
+  /**
+   * Get a single library entry
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @returns Library entry or null if the game is not in the library
+   */
+  async getEntry(userId: number, gameId: number): Promise<LibraryEntry | null> {
+    const result = await db.query<LibraryEntry>(
+      `SELECT
+        ugr.*,
+        g.title as game_title,
+        g.cover_url as game_cover_url
+      FROM user_game_ratings ugr
+      JOIN games g ON ugr.game_id = g.id
+      WHERE ugr.user_id = ? AND ugr.game_id = ?`,
+      [userId, gameId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a game to a user's library
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @param status - Initial play status
+   * @returns Created library entry
+   * @throws NotFoundError if game not found
+   * @throws ConflictError if the game is already in the library
+   */
+  async addGame(userId: number, gameId: number, status: LibraryStatus): Promise<LibraryEntry> {
+    // Check if game exists
+    const game = await gameService.getGameById(gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${gameId} not found`);
+    }
+
+    // Check if game is already in the library
+    const existingEntry = await this.getEntry(userId, gameId);
+    if (existingEntry) {
+      throw new ConflictError("Game is already in the library");
+    }
+
+    const now = new Date().toISOString();
+
+    // Add the entry and its first history row together
+    await db.transaction(async () => {
+      await db.insert("user_game_ratings", {
+        user_id: userId,
+        game_id: gameId,
+        status,
+        ...this.getStatusDates(status, null, now),
+        created_at: now,
+        updated_at: now,
+      });
+      await this.recordStatusChange(userId, gameId, status, now);
+    });
+
+    // Retrieve created entry
+    const createdEntry = await this.getEntry(userId, gameId);
+    if (!createdEntry) {
+      throw new Error("Failed to retrieve created library entry");
+    }
+
+    return createdEntry;
+  }
+
+  /**
+   * Change the play status of a game in a user's library
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @param status - New play status
+   * @returns Updated library entry
+   * @throws NotFoundError if the game is not in the library
+   */
+  async updateStatus(userId: number, gameId: number, status: LibraryStatus): Promise<LibraryEntry> {
+    const existingEntry = await this.getEntry(userId, gameId);
+    if (!existingEntry) {
+      throw new NotFoundError(`Game with ID ${gameId} not found in library`);
+    }
+
+    // Nothing to record if the status is unchanged
+    if (existingEntry.status === status) {
+      return existingEntry;
+    }
+
+    const now = new Date().toISOString();
+
+    // Change the status and record it in the history together
+    await db.transaction(async () => {
+      await db.update(
+        "user_game_ratings",
+        {
+          status,
+          ...this.getStatusDates(status, existingEntry, now),
+          updated_at: now,
+        },
+        "id = ?",
+        [existingEntry.id]
+      );
+      await this.recordStatusChange(userId, gameId, status, now);
+    });
+
+    // Retrieve updated entry
+    const updatedEntry = await this.getEntry(userId, gameId);
+    if (!updatedEntry) {
+      throw new Error("Failed to retrieve updated library entry");
+    }
+
+    return updatedEntry;
+  }
+
+  /**
+   * Rate a game in a user's library
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @param rating - Rating on the internal scale (see utils/ratings.ts)
+   * @returns Updated library entry
+   * @throws NotFoundError if the game is not in the library
+   */
+  async updateRating(userId: number, gameId: number, rating: number): Promise<LibraryEntry> {
+    const existingEntry = await this.getEntry(userId, gameId);
+    if (!existingEntry) {
+      throw new NotFoundError(`Game with ID ${gameId} not found in library`);
+    }
+
+    // Keep the original rating date if the rating is unchanged
+    if (existingEntry.rating !== null && Number(existingEntry.rating) === rating) {
+      return existingEntry;
+    }
+
+    const now = new Date().toISOString();
+
+    await db.update(
+      "user_game_ratings",
+      {
+        rating,
+        rated_at: now,
+        updated_at: now,
+      },
+      "id = ?",
+      [existingEntry.id]
+    );
+
+    // Retrieve updated entry
+    const updatedEntry = await this.getEntry(userId, gameId);
+    if (!updatedEntry) {
+      throw new Error("Failed to retrieve updated library entry");
+    }
+
+    return updatedEntry;
+  }
+
+  /**
+   * Remove a game from a user's library
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @returns True if the game was removed
+   * @throws NotFoundError if the game is not in the library
+   */
+  async removeGame(userId: number, gameId: number): Promise<boolean> {
+    const existingEntry = await this.getEntry(userId, gameId);
+    if (!existingEntry) {
+      throw new NotFoundError(`Game with ID ${gameId} not found in library`);
+    }
+
+    const result = await db.delete("user_game_ratings", "id = ?", [existingEntry.id]);
+
+    return result > 0;
+  }
+
+  /**
+   * Get the status history of a game in a user's library
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @returns Status changes, oldest first
+   */
+  async getStatusHistory(userId: number, gameId: number): Promise<LibraryStatusChange[]> {
+    const result = await db.query<LibraryStatusChange>(
+      `SELECT * FROM library_status_history
+      WHERE user_id = ? AND game_id = ?
+      ORDER BY changed_at ASC, id ASC`,
+      [userId, gameId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Compute the started/finished dates implied by a status change
+   * @param status - New play status
+   * @param entry - Current library entry (null for a new entry)
+   * @param now - Timestamp of the change
+   * @returns Date columns to store
+   */
+  private getStatusDates(
+    status: LibraryStatus,
+    entry: LibraryEntry | null,
+    now: string
+  ): { started_at: string | null; finished_at: string | null } {
+    switch (status) {
+      case "playing":
+        // A new playthrough starts when the previous one was finished
+        return {
+          started_at: entry?.started_at && !entry.finished_at ? entry.started_at : now,
+          finished_at: null,
+        };
+      case "played":
+        return {
+          started_at: entry?.started_at ?? null,
+          finished_at: now,
+        };
+      case "dropped":
+        return {
+          started_at: entry?.started_at ?? null,
+          finished_at: null,
+        };
+      default:
+        return { started_at: null, finished_at: null };
+    }
+  }
+
+  /**
+   * Record a status change in the history table
+   * @param userId - User ID
+   * @param gameId - Game ID
+   * @param status - New play status
+   * @param changedAt - Timestamp of the change
+   */
+  private async recordStatusChange(
+    userId: number,
+    gameId: number,
+    status: LibraryStatus,
+    changedAt: string
+  ): Promise<void> {
+    await db.insert("library_status_history", {
+      user_id: userId,
+      game_id: gameId,
+      status,
+      changed_at: changedAt,
+    });
+  }
+}
+
+// Create and export a singleton instance
+const libraryService = new LibraryService();
+export default libraryService;
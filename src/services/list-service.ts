@@ -0,0 +1,657 @@
+/**
+ * List Service
+ *
+ * This service handles user-curated game lists:
+ * - Creating, editing and deleting lists, public or private, ranked or not
+ * - Adding, annotating, moving and removing games, keeping positions contiguous
+ * - Reordering a whole list atomically
+ * - Collaborators, who can edit a list alongside its owner
+ */
+
+import db from "./database-service.ts";
+import gameService from "./game-service.ts";
+import userService from "./user-service.ts";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors.ts";
+import { LISTS } from "../config/constants.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Game list interface
+ */
+export interface GameList extends RowObject {
+  id: number;
+  user_id: number;
+  title: string;
+  description: string | null;
+  is_ranked: boolean;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+  username?: string;
+  entry_count?: number;
+}
+
+/**
+ * Game of a list
+ */
+export interface GameListEntry extends RowObject {
+  id: number;
+  list_id: number;
+  game_id: number;
+  position: number;
+  note: string | null;
+  added_by: number | null;
+  created_at: string;
+  updated_at: string;
+  game_title?: string;
+  game_cover_url?: string | null;
+}
+
+/**
+ * Collaborator of a list
+ */
+export interface GameListCollaborator extends RowObject {
+  list_id: number;
+  user_id: number;
+  username: string;
+  added_at: string;
+}
+
+/**
+ * List with its games, in order, and its collaborators
+ */
+export interface GameListDetails extends GameList {
+  entries: GameListEntry[];
+  collaborators: GameListCollaborator[];
+}
+
+/**
+ * Editable fields of a list
+ */
+export interface GameListInput {
+  title: string;
+  description?: string | null;
+  isRanked?: boolean;
+  isPublic?: boolean;
+}
+
+/**
+ * Sort key of list listings, most recently updated first
+ */
+const LIST_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_updated_at", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * List service class
+ */
+export class ListService {
+  /**
+   * Create a list
+   * @param userId - Owner of the list
+   * @param input - List details
+   * @returns Created list, empty
+   */
+  async createList(userId: number, input: GameListInput): Promise<GameListDetails> {
+    const now = new Date().toISOString();
+
+    const listId = await db.insert("game_lists", {
+      user_id: userId,
+      title: input.title,
+      description: input.description ?? null,
+      is_ranked: input.isRanked ?? false,
+      is_public: input.isPublic ?? true,
+      created_at: now,
+      updated_at: now,
+    });
+
+    return await this.getList(listId, userId);
+  }
+
+  /**
+   * Get a list with its games and collaborators
+   * @param listId - List ID
+   * @param viewerId - User viewing the list, if authenticated
+   * @returns List details
+   * @throws NotFoundError if the list doesn't exist or is private to the viewer
+   */
+  async getList(listId: number, viewerId: number | null): Promise<GameListDetails> {
+    const list = await this.getVisibleList(listId, viewerId);
+
+    const entries = await db.query<GameListEntry>(
+      `SELECT
+        gle.*,
+        g.title as game_title,
+        g.cover_url as game_cover_url
+      FROM game_list_entries gle
+      JOIN games g ON gle.game_id = g.id
+      WHERE gle.list_id = ?
+      ORDER BY gle.position ASC`,
+      [listId]
+    );
+
+    return {
+      ...list,
+      entry_count: entries.rows.length,
+      entries: entries.rows,
+      collaborators: await this.getCollaborators(listId),
+    };
+  }
+
+  /**
+   * Get the lists of a user
+   * Users see all the lists they own or collaborate on, other viewers only see public lists
+   * @param ownerId - User whose lists are returned
+   * @param viewerId - User viewing the lists, if authenticated
+   * @param page - Requested page
+   * @returns Page of lists, most recently updated first, with their number of games
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getUserLists(
+    ownerId: number,
+    viewerId: number | null,
+    page: CursorPageRequest
+  ): Promise<CursorPage<GameList>> {
+    const filter = ownerId === viewerId
+      ? "(gl.user_id = ? OR gl.id IN (SELECT list_id FROM game_list_collaborators WHERE user_id = ?))"
+      : "gl.user_id = ? AND gl.is_public = TRUE";
+    const filterParams = ownerId === viewerId ? [ownerId, ownerId] : [ownerId];
+
+    const result = await db.queryPage<GameList>(
+      `SELECT
+        gl.*,
+        u.username,
+        (SELECT COUNT(*) FROM game_list_entries gle WHERE gle.list_id = gl.id) as entry_count,
+        COALESCE(CAST(gl.updated_at AS TEXT), '') as sort_updated_at
+      FROM game_lists gl
+      JOIN users u ON gl.user_id = u.id
+      WHERE ${filter}`,
+      filterParams,
+      LIST_CURSOR_KEYS,
+      page
+    );
+
+    return { ...result, items: result.items.map(list => this.formatList(list)) };
+  }
+
+  /**
+   * Edit the details of a list (owner and collaborators; only the owner can change its visibility and ranking)
+   * @param userId - User editing the list
+   * @param listId - List ID
+   * @param changes - Fields to change
+   * @returns Updated list details
+   * @throws NotFoundError if the list doesn't exist or is private to the user
+   * @throws ForbiddenError if the user cannot edit the list, or a collaborator changes its visibility or ranking
+   */
+  async updateList(userId: number, listId: number, changes: Partial<GameListInput>): Promise<GameListDetails> {
+    const list = await this.getEditableList(listId, userId);
+
+    if (list.user_id !== userId && (changes.isPublic !== undefined || changes.isRanked !== undefined)) {
+      throw new ForbiddenError("Only the owner can change the visibility or ranking of a list");
+    }
+
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (changes.title !== undefined) {
+      updateData.title = changes.title;
+    }
+
+    if (changes.description !== undefined) {
+      updateData.description = changes.description;
+    }
+
+    if (changes.isRanked !== undefined) {
+      updateData.is_ranked = changes.isRanked;
+    }
+
+    if (changes.isPublic !== undefined) {
+      updateData.is_public = changes.isPublic;
+    }
+
+    await db.update("game_lists", updateData, "id = ?", [listId]);
+
+    return await this.getList(listId, userId);
+  }
+
+  /**
+   * Delete a list with its games and collaborators (owner only)
+   * @param userId - User deleting the list
+   * @param listId - List ID
+   * @throws NotFoundError if the list doesn't exist or is private to the user
+   * @throws ForbiddenError if the user doesn't own the list
+   */
+  async deleteList(userId: number, listId: number): Promise<void> {
+    const list = await this.getVisibleList(listId, userId);
+
+    if (list.user_id !== userId) {
+      throw new ForbiddenError("Only the owner can delete a list");
+    }
+
+    await db.transaction(async () => {
+      await db.delete("game_list_entries", "list_id = ?", [listId]);
+      await db.delete("game_list_collaborators", "list_id = ?", [listId]);
+      await db.delete("game_lists", "id = ?", [listId]);
+    });
+  }
+
+  /**
+   * Add a game to a list (owner and collaborators)
+   * @param userId - User adding the game
+   * @param listId - List ID
+   * @param gameId - Game ID
+   * @param note - Note attached to the game (optional)
+   * @param position - Position to insert the game at, from 1 (optional, defaults to the end)
+   * @returns Created list entry
+   * @throws NotFoundError if the list or the game doesn't exist
+   * @throws ForbiddenError if the user cannot edit the list
+   * @throws ConflictError if the game is already in the list
+   * @throws BadRequestError if the list is full
+   */
+  async addEntry(
+    userId: number,
+    listId: number,
+    gameId: number,
+    note: string | null = null,
+    position?: number
+  ): Promise<GameListEntry> {
+    await this.getEditableList(listId, userId);
+
+    const game = await gameService.getGameById(gameId);
+    if (!game) {
+      throw new NotFoundError(`Game with ID ${gameId} not found`);
+    }
+
+    const existing = await db.query<{ id: number }>(
+      "SELECT id FROM game_list_entries WHERE list_id = ? AND game_id = ?",
+      [listId, gameId]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError("Game is already in the list");
+    }
+
+    const now = new Date().toISOString();
+
+    // Positions are read and written in the same transaction so concurrent edits cannot interleave
+    const entryId = await db.transaction(async () => {
+      const entryCount = await this.countEntries(listId);
+      if (entryCount >= LISTS.MAX_ENTRIES) {
+        throw new BadRequestError(`A list cannot hold more than ${LISTS.MAX_ENTRIES} games`);
+      }
+
+      const insertAt = Math.min(position ?? entryCount + 1, entryCount + 1);
+
+      // Make room for the new game
+      await db.query(
+        "UPDATE game_list_entries SET position = position + 1 WHERE list_id = ? AND position >= ?",
+        [listId, insertAt]
+      );
+
+      const id = await db.insert("game_list_entries", {
+        list_id: listId,
+        game_id: gameId,
+        position: insertAt,
+        note,
+        added_by: userId,
+        created_at: now,
+        updated_at: now,
+      });
+      await this.touchList(listId, now);
+
+      return id;
+    });
+
+    return await this.getEntry(listId, entryId);
+  }
+
+  /**
+   * Change the note and/or position of a game in a list (owner and collaborators)
+   * @param userId - User editing the list
+   * @param listId - List ID
+   * @param entryId - List entry ID
+   * @param changes - New note (null to clear it) and/or position, from 1
+   * @returns Updated list entry
+   * @throws NotFoundError if the list or the entry doesn't exist
+   * @throws ForbiddenError if the user cannot edit the list
+   */
+  async updateEntry(
+    userId: number,
+    listId: number,
+    entryId: number,
+    changes: { note?: string | null; position?: number }
+  ): Promise<GameListEntry> {
+    await this.getEditableList(listId, userId);
+
+    const now = new Date().toISOString();
+
+    await db.transaction(async () => {
+      const entry = await this.getEntry(listId, entryId);
+      const target = changes.position === undefined
+        ? entry.position
+        : Math.min(changes.position, await this.countEntries(listId));
+
+      // Shift the games between the old and the new position by one
+      if (target < entry.position) {
+        await db.query(
+          "UPDATE game_list_entries SET position = position + 1 WHERE list_id = ? AND position >= ? AND position < ?",
+          [listId, target, entry.position]
+        );
+      } else if (target > entry.position) {
+        await db.query(
+          "UPDATE game_list_entries SET position = position - 1 WHERE list_id = ? AND position > ? AND position <= ?",
+          [listId, entry.position, target]
+        );
+      }
+
+      await db.update(
+        "game_list_entries",
+        {
+          position: target,
+          note: changes.note === undefined ? entry.note : changes.note,
+          updated_at: now,
+        },
+        "id = ?",
+        [entryId]
+      );
+      await this.touchList(listId, now);
+    });
+
+    return await this.getEntry(listId, entryId);
+  }
+
+  /**
+   * Remove a game from a list (owner and collaborators)
+   * @param userId - User editing the list
+   * @param listId - List ID
+   * @param entryId - List entry ID
+   * @throws NotFoundError if the list or the entry doesn't exist
+   * @throws ForbiddenError if the user cannot edit the list
+   */
+  async removeEntry(userId: number, listId: number, entryId: number): Promise<void> {
+    await this.getEditableList(listId, userId);
+
+    await db.transaction(async () => {
+      const entry = await this.getEntry(listId, entryId);
+      await db.delete("game_list_entries", "id = ?", [entryId]);
+
+      // Close the gap left by the game
+      await db.query(
+        "UPDATE game_list_entries SET position = position - 1 WHERE list_id = ? AND position > ?",
+        [listId, entry.position]
+      );
+      await this.touchList(listId, new Date().toISOString());
+    });
+  }
+
+  /**
+   * Reorder all the games of a list at once (owner and collaborators)
+   * Either every position changes or none does
+   * @param userId - User editing the list
+   * @param listId - List ID
+   * @param entryIds - Every entry ID of the list, in the new order
+   * @returns Entries in their new order
+   * @throws NotFoundError if the list doesn't exist or is private to the user
+   * @throws ForbiddenError if the user cannot edit the list
+   * @throws BadRequestError if the IDs are not exactly the entries of the list
+   */
+  async reorderEntries(userId: number, listId: number, entryIds: number[]): Promise<GameListEntry[]> {
+    await this.getEditableList(listId, userId);
+
+    const now = new Date().toISOString();
+
+    await db.transaction(async () => {
+      const current = await db.query<{ id: number }>(
+        "SELECT id FROM game_list_entries WHERE list_id = ?",
+        [listId]
+      );
+      const currentIds = new Set(current.rows.map(row => row.id));
+
+      if (
+        new Set(entryIds).size !== entryIds.length ||
+        entryIds.length !== currentIds.size ||
+        entryIds.some(id => !currentIds.has(id))
+      ) {
+        throw new BadRequestError("The new order must list every entry of the list exactly once");
+      }
+
+      for (const [index, entryId] of entryIds.entries()) {
+        await db.update(
+          "game_list_entries",
+          { position: index + 1, updated_at: now },
+          "id = ?",
+          [entryId]
+        );
+      }
+      await this.touchList(listId, now);
+    });
+
+    return (await this.getList(listId, userId)).entries;
+  }
+
+  /**
+   * Invite a collaborator to edit a list (owner only)
+   * @param ownerId - User inviting the collaborator
+   * @param listId - List ID
+   * @param collaboratorId - Invited user
+   * @returns Collaborators of the list
+   * @throws NotFoundError if the list or the user doesn't exist
+   * @throws ForbiddenError if the user doesn't own the list
+   * @throws BadRequestError if owners invite themselves or the list has too many collaborators
+   * @throws ConflictError if the user already collaborates on the list
+   */
+  async addCollaborator(ownerId: number, listId: number, collaboratorId: number): Promise<GameListCollaborator[]> {
+    const list = await this.getVisibleList(listId, ownerId);
+
+    if (list.user_id !== ownerId) {
+      throw new ForbiddenError("Only the owner can manage the collaborators of a list");
+    }
+
+    if (collaboratorId === ownerId) {
+      throw new BadRequestError("You already own this list");
+    }
+
+    const user = await userService.findById(collaboratorId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const collaborators = await this.getCollaborators(listId);
+
+    if (collaborators.some(collaborator => collaborator.user_id === collaboratorId)) {
+      throw new ConflictError("User already collaborates on this list");
+    }
+
+    if (collaborators.length >= LISTS.MAX_COLLABORATORS) {
+      throw new BadRequestError(`A list cannot have more than ${LISTS.MAX_COLLABORATORS} collaborators`);
+    }
+
+    await db.query(
+      "INSERT INTO game_list_collaborators (list_id, user_id, added_at) VALUES (?, ?, ?)",
+      [listId, collaboratorId, new Date().toISOString()]
+    );
+
+    return await this.getCollaborators(listId);
+  }
+
+  /**
+   * Remove a collaborator from a list (owner, or collaborators leaving)
+   * @param userId - User removing the collaborator
+   * @param listId - List ID
+   * @param collaboratorId - Removed collaborator
+   * @throws NotFoundError if the list doesn't exist or the user doesn't collaborate on it
+   * @throws ForbiddenError if the user is neither the owner nor the collaborator
+   */
+  async removeCollaborator(userId: number, listId: number, collaboratorId: number): Promise<void> {
+    const list = await this.getVisibleList(listId, userId);
+
+    if (list.user_id !== userId && collaboratorId !== userId) {
+      throw new ForbiddenError("Only the owner can manage the collaborators of a list");
+    }
+
+    const deleted = await db.delete(
+      "game_list_collaborators",
+      "list_id = ? AND user_id = ?",
+      [listId, collaboratorId]
+    );
+
+    if (deleted === 0) {
+      throw new NotFoundError("User does not collaborate on this list");
+    }
+  }
+
+  /**
+   * Get a list the user is allowed to see
+   * @param listId - List ID
+   * @param viewerId - User viewing the list, if authenticated
+   * @returns List
+   * @throws NotFoundError if the list doesn't exist or is private to the viewer
+   */
+  private async getVisibleList(listId: number, viewerId: number | null): Promise<GameList> {
+    const result = await db.query<GameList>(
+      `SELECT
+        gl.*,
+        u.username
+      FROM game_lists gl
+      JOIN users u ON gl.user_id = u.id
+      WHERE gl.id = ?`,
+      [listId]
+    );
+
+    const list = result.rows[0] ? this.formatList(result.rows[0]) : null;
+
+    // Private lists don't exist for other users
+    if (!list || (!list.is_public && !(viewerId !== null && await this.canEdit(list, viewerId)))) {
+      throw new NotFoundError(`List with ID ${listId} not found`);
+    }
+
+    return list;
+  }
+
+  /**
+   * Get a list the user is allowed to edit
+   * @param listId - List ID
+   * @param userId - User editing the list
+   * @returns List
+   * @throws NotFoundError if the list doesn't exist or is private to the user
+   * @throws ForbiddenError if the user is neither the owner nor a collaborator
+   */
+  private async getEditableList(listId: number, userId: number): Promise<GameList> {
+    const list = await this.getVisibleList(listId, userId);
+
+    if (!await this.canEdit(list, userId)) {
+      throw new ForbiddenError("Only the owner and collaborators can edit this list");
+    }
+
+    return list;
+  }
+
+  /**
+   * Check whether a user owns or collaborates on a list
+   * @param list - List
+   * @param userId - User ID
+   * @returns True if the user can edit the list
+   */
+  private async canEdit(list: GameList, userId: number): Promise<boolean> {
+    if (list.user_id === userId) {
+      return true;
+    }
+
+    const result = await db.query<{ user_id: number }>(
+      "SELECT user_id FROM game_list_collaborators WHERE list_id = ? AND user_id = ?",
+      [list.id, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Get an entry of a list
+   * @param listId - List ID
+   * @param entryId - List entry ID
+   * @returns List entry with game information
+   * @throws NotFoundError if the entry doesn't exist in this list
+   */
+  private async getEntry(listId: number, entryId: number): Promise<GameListEntry> {
+    const result = await db.query<GameListEntry>(
+      `SELECT
+        gle.*,
+        g.title as game_title,
+        g.cover_url as game_cover_url
+      FROM game_list_entries gle
+      JOIN games g ON gle.game_id = g.id
+      WHERE gle.id = ? AND gle.list_id = ?`,
+      [entryId, listId]
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundError(`List entry with ID ${entryId} not found`);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get the collaborators of a list
+   * @param listId - List ID
+   * @returns Collaborators, in the order they were invited
+   */
+  private async getCollaborators(listId: number): Promise<GameListCollaborator[]> {
+    const result = await db.query<GameListCollaborator>(
+      `SELECT
+        glc.*,
+        u.username
+      FROM game_list_collaborators glc
+      JOIN users u ON glc.user_id = u.id
+      WHERE glc.list_id = ?
+      ORDER BY glc.added_at ASC`,
+      [listId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Count the games of a list
+   * @param listId - List ID
+   * @returns Number of games
+   */
+  private async countEntries(listId: number): Promise<number> {
+    const result = await db.query<{ count: number }>(
+      "SELECT COUNT(*) as count FROM game_list_entries WHERE list_id = ?",
+      [listId]
+    );
+
+    return Number(result.rows[0]?.count || 0);
+  }
+
+  /**
+   * Mark a list as updated
+   * @param listId - List ID
+   * @param now - Update time
+   */
+  private async touchList(listId: number, now: string): Promise<void> {
+    await db.update("game_lists", { updated_at: now }, "id = ?", [listId]);
+  }
+
+  /**
+   * Normalize the columns of a list row
+   * (SQLite returns booleans as integers, PostgreSQL returns COUNT results as bigints)
+   * @param list - List row
+   * @returns List
+   */
+  private formatList<T extends GameList>(list: T): T {
+    return {
+      ...list,
+      is_ranked: Boolean(list.is_ranked),
+      is_public: Boolean(list.is_public),
+      ...(list.entry_count !== undefined && { entry_count: Number(list.entry_count) }),
+    };
+  }
+}
+
+// Create and export a singleton instance
+const listService = new ListService();
+export default listService;
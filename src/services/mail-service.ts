@@ -0,0 +1,195 @@
+/**
+ * Mail Service
+ *
+ * This service sends the application's emails:
+ * - Pluggable transports (SMTP, or file + console for local development)
+ * - Email verification and password reset messages
+ */
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { AUTH, MAIL, SERVER } from "../config/constants.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Email to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Way of delivering emails
+ */
+export interface MailTransport {
+  /**
+   * Deliver an email
+   * @param message - Email, with its sender
+   */
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transport delivering emails through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private config: typeof MAIL.SMTP) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    // One connection per email: emails are rare, and idle connections get dropped by servers
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.config.HOSTNAME,
+        port: this.config.PORT,
+        tls: this.config.TLS,
+        auth: this.config.USERNAME
+          ? { username: this.config.USERNAME, password: this.config.PASSWORD }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Transport writing emails to an outbox directory, for local testing
+ * Emails carry verification and reset links, so their content only goes to the console when asked for
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private outboxPath: string, private logContent = false) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const date = new Date();
+    const fileName = `${date.toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.eml`;
+
+    await Deno.mkdir(this.outboxPath, { recursive: true });
+    await Deno.writeTextFile(
+      `${this.outboxPath}/${fileName}`,
+      [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${date.toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text,
+      ].join("\r\n")
+    );
+
+    logger.info(`Email "${message.subject}" to ${message.to} written to ${this.outboxPath}/${fileName}`);
+
+    if (this.logContent) {
+      logger.info(message.text);
+    }
+  }
+}
+
+/**
+ * Create the transport selected by the configuration
+ * The file transport is only used in production when MAIL_TRANSPORT asks for it
+ * @returns Mail transport
+ */
+function createTransport(): MailTransport {
+  switch (MAIL.TRANSPORT) {
+    case "smtp":
+      return new SmtpMailTransport(MAIL.SMTP);
+    case "file":
+      return new FileMailTransport(MAIL.OUTBOX_PATH, SERVER.IS_DEVELOPMENT);
+    default:
+      if (!SERVER.IS_DEVELOPMENT) {
+        logger.warn(`Unknown mail transport "${MAIL.TRANSPORT}", using the SMTP transport`);
+        return new SmtpMailTransport(MAIL.SMTP);
+      }
+
+      logger.warn(`Unknown mail transport "${MAIL.TRANSPORT}", using the file transport`);
+      return new FileMailTransport(MAIL.OUTBOX_PATH, true);
+  }
+}
+
+/**
+ * Mail service class
+ */
+export class MailService {
+  constructor(private transport: MailTransport) {}
+
+  /**
+   * Replace the transport (e.g. to capture emails in development tools)
+   * @param transport - Mail transport
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email from the application's address
+   * @param message - Email to send
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: MAIL.FROM });
+    logger.debug(`Email "${message.subject}" sent to ${message.to}`);
+  }
+
+  /**
+   * Send the link confirming a user's email address
+   * @param to - Email address to verify
+   * @param username - Recipient's username
+   * @param token - Email verification token
+   */
+  async sendEmailVerification(to: string, username: string, token: string): Promise<void> {
+    const link = `${MAIL.APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: "Confirm your email address",
+      text: [
+        `Hi ${username},`,
+        "",
+        "Please confirm your email address by opening this link:",
+        link,
+        "",
+        "If you did not create an account, you can ignore this email.",
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * Send a password reset link
+   * @param to - Account email address
+   * @param username - Recipient's username
+   * @param token - Password reset token
+   */
+  async sendPasswordReset(to: string, username: string, token: string): Promise<void> {
+    const link = `${MAIL.APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: "Reset your password",
+      text: [
+        `Hi ${username},`,
+        "",
+        "Someone asked to reset your password. Open this link to choose a new one:",
+        link,
+        "",
+        `The link expires in ${AUTH.PASSWORD_RESET_TOKEN_EXPIRY / 60} minutes and can only be used once.`,
+        "If you did not ask for it, you can ignore this email.",
+      ].join("\n"),
+    });
+  }
+}
+
+// Create and export a singleton instance
+const mailService = new MailService(createTransport());
+export default mailService;
@@ -0,0 +1,504 @@
+/**
+ * Game Metadata Providers
+ *
+ * This file implements the external sources of game metadata behind one interface:
+ * - IGDB (Twitch application credentials)
+ * - RAWG (API key)
+ * - A local JSON file, for offline development and tests
+ * Each provider tags the external IDs of its games with its name ("igdb:1942", "rawg:3328").
+ */
+
+import logger from "../utils/logger.ts";
+import { GameTagInput } from "./tag-service.ts";
+import { foldSearchText } from "./search-service.ts";
+import { METADATA, TAGS } from "../config/constants.ts";
+
+/**
+ * Game data returned by a provider, ready to be stored
+ * Fields a provider doesn't return are left undefined so they don't overwrite stored values
+ */
+export interface GameMetadata {
+  external_id: string;
+  title: string;
+  developer?: string | null;
+  publisher?: string | null;
+  cover_url?: string | null;
+  release_date?: string | null;
+  description?: string | null;
+  tags?: GameTagInput[];
+}
+
+/**
+ * External source of game metadata
+ */
+export interface GameMetadataProvider {
+  /** Prefix of the external IDs of the provider's games */
+  readonly name: string;
+
+  /**
+   * Check whether the provider can be queried (credentials, file path)
+   * @returns True if the provider is usable
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Search games by title
+   * @param query - Search query
+   * @param limit - Maximum number of results
+   * @returns Matching games
+   */
+  searchGames(query: string, limit: number): Promise<GameMetadata[]>;
+
+  /**
+   * Get popular games
+   * @param limit - Maximum number of results
+   * @returns Popular games, most popular first
+   */
+  getPopularGames(limit: number): Promise<GameMetadata[]>;
+
+  /**
+   * Get games released recently
+   * @param limit - Maximum number of results
+   * @param since - Start of the release window
+   * @returns Games released between since and now, most recent first
+   */
+  getRecentGames(limit: number, since: Date): Promise<GameMetadata[]>;
+
+  /**
+   * Get the details of a game
+   * @param id - Game ID at the provider (without the prefix)
+   * @returns Game or null if the provider doesn't know it
+   */
+  getGameDetails(id: string): Promise<GameMetadata | null>;
+}
+
+// IGDB API configuration
+const IGDB_API_URL = "https://api.igdb.com/v4";
+const TWITCH_AUTH_URL = "https://id.twitch.tv/oauth2/token";
+const IGDB_GAME_FIELDS = "name, cover.url, first_release_date, summary, genres.name, themes.name, keywords.name, involved_companies.company.name, involved_companies.developer, involved_companies.publisher";
+
+// Interface for IGDB Game
+interface IGDBGame {
+  id: number;
+  name: string;
+  cover?: {
+    id: number;
+    url: string;
+  };
+  first_release_date?: number;
+  summary?: string;
+  genres?: IGDBNamedEntity[];
+  themes?: IGDBNamedEntity[];
+  keywords?: IGDBNamedEntity[];
+  involved_companies?: IGDBInvolvedCompany[];
+}
+
+// Interface for IGDB genres, themes and keywords
+interface IGDBNamedEntity {
+  id: number;
+  name: string;
+}
+
+// Interface for the companies involved in an IGDB game
+interface IGDBInvolvedCompany {
+  id: number;
+  company: IGDBNamedEntity;
+  developer: boolean;
+  publisher: boolean;
+}
+
+/**
+ * Provider querying the IGDB API
+ */
+export class IgdbMetadataProvider implements GameMetadataProvider {
+  readonly name = "igdb";
+  private accessToken: string | null = null;
+  private tokenExpiry = 0;
+
+  constructor(private config: typeof METADATA.IGDB) {}
+
+  isConfigured(): boolean {
+    return this.config.CLIENT_ID !== "" && this.config.CLIENT_SECRET !== "";
+  }
+
+  async searchGames(query: string, limit: number): Promise<GameMetadata[]> {
+    return await this.queryGames(`
+      search "${query.replace(/"/g, "")}";
+      fields ${IGDB_GAME_FIELDS};
+      limit ${limit};
+    `);
+  }
+
+  async getPopularGames(limit: number): Promise<GameMetadata[]> {
+    return await this.queryGames(`
+      fields ${IGDB_GAME_FIELDS};
+      sort popularity desc;
+      limit ${limit};
+    `);
+  }
+
+  async getRecentGames(limit: number, since: Date): Promise<GameMetadata[]> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return await this.queryGames(`
+      fields ${IGDB_GAME_FIELDS};
+      where first_release_date > ${Math.floor(since.getTime() / 1000)} & first_release_date < ${now};
+      sort first_release_date desc;
+      limit ${limit};
+    `);
+  }
+
+  async getGameDetails(id: string): Promise<GameMetadata | null> {
+    if (!/^\d+$/.test(id)) {
+      return null;
+    }
+
+    const games = await this.queryGames(`
+      fields ${IGDB_GAME_FIELDS};
+      where id = ${id};
+    `);
+
+    return games[0] || null;
+  }
+
+  /**
+   * Get an access token for the IGDB API
+   * @returns Access token
+   */
+  private async getAccessToken(): Promise<string> {
+    // Check if we have a valid token
+    const now = Date.now();
+    if (this.accessToken && now < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    // Check if we have client credentials
+    if (!this.isConfigured()) {
+      throw new Error("IGDB API credentials not configured");
+    }
+
+    // Request a new token
+    const response = await fetch(
+      `${TWITCH_AUTH_URL}?client_id=${this.config.CLIENT_ID}&client_secret=${this.config.CLIENT_SECRET}&grant_type=client_credentials`,
+      { method: "POST" }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get IGDB access token: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // Store the token and expiry
+    this.accessToken = data.access_token as string;
+    this.tokenExpiry = now + (data.expires_in * 1000);
+
+    logger.debug("Obtained new IGDB API access token");
+
+    return this.accessToken;
+  }
+
+  /**
+   * Query the games endpoint of the IGDB API
+   * @param query - IGDB query (Apicalypse syntax)
+   * @returns Games
+   */
+  private async queryGames(query: string): Promise<GameMetadata[]> {
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${IGDB_API_URL}/games`, {
+      method: "POST",
+      headers: {
+        "Client-ID": this.config.CLIENT_ID,
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "text/plain",
+      },
+      body: query,
+    });
+
+    if (!response.ok) {
+      throw new Error(`IGDB API error: ${response.status} ${response.statusText}`);
+    }
+
+    const igdbGames = await response.json() as IGDBGame[];
+
+    return igdbGames.map(igdbGame => this.toMetadata(igdbGame));
+  }
+
+  /**
+   * Convert an IGDB game
+   * @param igdbGame - IGDB game
+   * @returns Game metadata
+   */
+  private toMetadata(igdbGame: IGDBGame): GameMetadata {
+    // Convert the cover from thumbnail to full size image, over HTTPS
+    let coverUrl = null;
+    if (igdbGame.cover?.url) {
+      coverUrl = igdbGame.cover.url.replace("t_thumb", "t_cover_big");
+
+      if (coverUrl.startsWith("//")) {
+        coverUrl = `https:${coverUrl}`;
+      }
+    }
+
+    return {
+      external_id: `${this.name}:${igdbGame.id}`,
+      title: igdbGame.name,
+      developer: this.extractCompanies(igdbGame, "developer"),
+      publisher: this.extractCompanies(igdbGame, "publisher"),
+      cover_url: coverUrl,
+      release_date: igdbGame.first_release_date
+        ? new Date(igdbGame.first_release_date * 1000).toISOString()
+        : null,
+      description: igdbGame.summary,
+      tags: [
+        ...(igdbGame.genres || []).map(genre => ({ name: genre.name, category: "genre" as const })),
+        ...(igdbGame.themes || []).map(theme => ({ name: theme.name, category: "theme" as const })),
+        ...(igdbGame.keywords || [])
+          .slice(0, TAGS.MAX_KEYWORDS_PER_GAME)
+          .map(keyword => ({ name: keyword.name, category: "keyword" as const })),
+      ],
+    };
+  }
+
+  /**
+   * Get the developers or publishers of a game from its IGDB involved companies
+   * @param igdbGame - IGDB game
+   * @param role - Role of the companies to get
+   * @returns Company names, comma-separated, or null if unknown
+   */
+  private extractCompanies(igdbGame: IGDBGame, role: "developer" | "publisher"): string | null {
+    const companies = (igdbGame.involved_companies || [])
+      .filter(involvement => involvement[role] && involvement.company)
+      .map(involvement => involvement.company.name);
+
+    return companies.length > 0 ? companies.join(", ") : null;
+  }
+}
+
+// RAWG API configuration
+const RAWG_API_URL = "https://api.rawg.io/api";
+
+// Interface for RAWG Game (list results omit the companies and the description)
+interface RAWGGame {
+  id: number;
+  name: string;
+  released?: string | null;
+  background_image?: string | null;
+  description_raw?: string;
+  genres?: RAWGNamedEntity[];
+  tags?: RAWGNamedEntity[];
+  developers?: RAWGNamedEntity[];
+  publishers?: RAWGNamedEntity[];
+}
+
+// Interface for RAWG genres, tags and companies
+interface RAWGNamedEntity {
+  id: number;
+  name: string;
+}
+
+/**
+ * Provider querying the RAWG API
+ */
+export class RawgMetadataProvider implements GameMetadataProvider {
+  readonly name = "rawg";
+
+  constructor(private config: typeof METADATA.RAWG) {}
+
+  isConfigured(): boolean {
+    return this.config.API_KEY !== "";
+  }
+
+  async searchGames(query: string, limit: number): Promise<GameMetadata[]> {
+    return await this.listGames({ search: query, page_size: String(limit) });
+  }
+
+  async getPopularGames(limit: number): Promise<GameMetadata[]> {
+    return await this.listGames({ ordering: "-metacritic", page_size: String(limit) });
+  }
+
+  async getRecentGames(limit: number, since: Date): Promise<GameMetadata[]> {
+    const today = new Date().toISOString().slice(0, 10);
+
+    return await this.listGames({
+      dates: `${since.toISOString().slice(0, 10)},${today}`,
+      ordering: "-released",
+      page_size: String(limit),
+    });
+  }
+
+  async getGameDetails(id: string): Promise<GameMetadata | null> {
+    if (!/^\d+$/.test(id)) {
+      return null;
+    }
+
+    const rawgGame = await this.request<RAWGGame>(`games/${id}`, {});
+
+    return rawgGame ? this.toMetadata(rawgGame) : null;
+  }
+
+  /**
+   * Query the games endpoint of the RAWG API
+   * @param params - Query string parameters
+   * @returns Games
+   */
+  private async listGames(params: Record<string, string>): Promise<GameMetadata[]> {
+    const data = await this.request<{ results: RAWGGame[] }>("games", params);
+
+    return (data?.results || []).map(rawgGame => this.toMetadata(rawgGame));
+  }
+
+  /**
+   * Make a request to the RAWG API
+   * @param endpoint - API endpoint
+   * @param params - Query string parameters
+   * @returns API response, or null if the resource doesn't exist
+   */
+  private async request<T>(endpoint: string, params: Record<string, string>): Promise<T | null> {
+    if (!this.isConfigured()) {
+      throw new Error("RAWG API key not configured");
+    }
+
+    const query = new URLSearchParams({ ...params, key: this.config.API_KEY });
+    const response = await fetch(`${RAWG_API_URL}/${endpoint}?${query}`);
+
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`RAWG API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+  }
+
+  /**
+   * Convert a RAWG game
+   * @param rawgGame - RAWG game
+   * @returns Game metadata
+   */
+  private toMetadata(rawgGame: RAWGGame): GameMetadata {
+    return {
+      external_id: `${this.name}:${rawgGame.id}`,
+      title: rawgGame.name,
+      developer: rawgGame.developers ? this.joinNames(rawgGame.developers) : undefined,
+      publisher: rawgGame.publishers ? this.joinNames(rawgGame.publishers) : undefined,
+      cover_url: rawgGame.background_image || null,
+      release_date: rawgGame.released ? new Date(`${rawgGame.released}T00:00:00Z`).toISOString() : null,
+      description: rawgGame.description_raw,
+      tags: [
+        ...(rawgGame.genres || []).map(genre => ({ name: genre.name, category: "genre" as const })),
+        ...(rawgGame.tags || [])
+          .slice(0, TAGS.MAX_KEYWORDS_PER_GAME)
+          .map(tag => ({ name: tag.name, category: "keyword" as const })),
+      ],
+    };
+  }
+
+  /**
+   * Join the names of RAWG companies
+   * @param entities - Companies
+   * @returns Names, comma-separated, or null if there are none
+   */
+  private joinNames(entities: RAWGNamedEntity[]): string | null {
+    return entities.length > 0 ? entities.map(entity => entity.name).join(", ") : null;
+  }
+}
+
+// Interface for a game of the local JSON file
+interface LocalGame {
+  id: string | number;
+  title: string;
+  developer?: string | null;
+  publisher?: string | null;
+  cover_url?: string | null;
+  release_date?: string | null;
+  description?: string | null;
+  tags?: GameTagInput[];
+}
+
+/**
+ * Provider reading games from a JSON file (an array of games, most popular first)
+ */
+export class LocalJsonMetadataProvider implements GameMetadataProvider {
+  readonly name = "local";
+  private games: LocalGame[] | null = null;
+
+  constructor(private path: string) {}
+
+  isConfigured(): boolean {
+    return this.path !== "";
+  }
+
+  async searchGames(query: string, limit: number): Promise<GameMetadata[]> {
+    const folded = foldSearchText(query.trim());
+
+    return (await this.loadGames())
+      .filter(game => foldSearchText(game.title).includes(folded))
+      .slice(0, limit)
+      .map(game => this.toMetadata(game));
+  }
+
+  async getPopularGames(limit: number): Promise<GameMetadata[]> {
+    return (await this.loadGames()).slice(0, limit).map(game => this.toMetadata(game));
+  }
+
+  async getRecentGames(limit: number, since: Date): Promise<GameMetadata[]> {
+    const now = Date.now();
+
+    return (await this.loadGames())
+      .filter(game => {
+        const released = game.release_date ? Date.parse(game.release_date) : NaN;
+        return released > since.getTime() && released < now;
+      })
+      .sort((a, b) => Date.parse(b.release_date!) - Date.parse(a.release_date!))
+      .slice(0, limit)
+      .map(game => this.toMetadata(game));
+  }
+
+  async getGameDetails(id: string): Promise<GameMetadata | null> {
+    const game = (await this.loadGames()).find(game => String(game.id) === id);
+
+    return game ? this.toMetadata(game) : null;
+  }
+
+  /**
+   * Read the games of the file, once
+   * @returns Games
+   */
+  private async loadGames(): Promise<LocalGame[]> {
+    if (!this.games) {
+      const games = JSON.parse(await Deno.readTextFile(this.path));
+
+      if (!Array.isArray(games)) {
+        throw new Error(`${this.path} must contain an array of games`);
+      }
+
+      this.games = games as LocalGame[];
+      logger.debug(`Loaded ${this.games.length} games from ${this.path}`);
+    }
+
+    return this.games;
+  }
+
+  /**
+   * Convert a game of the file
+   * @param game - Game of the file
+   * @returns Game metadata
+   */
+  private toMetadata(game: LocalGame): GameMetadata {
+    return {
+      external_id: `${this.name}:${game.id}`,
+      title: game.title,
+      developer: game.developer,
+      publisher: game.publisher,
+      cover_url: game.cover_url,
+      release_date: game.release_date,
+      description: game.description,
+      tags: game.tags,
+    };
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Migration Service
+ *
+ * This service manages versioned schema migrations:
+ * - Discovery of numbered migration files
+ * - Bookkeeping of applied versions in the schema_migrations table
+ * - Applying and reverting migrations on SQLite and PostgreSQL
+ */
+
+import db from "./database-service.ts";
+import { RowObject } from "./database-service.ts";
+import { dbConfig, convertPgSchemaToSqlite } from "../config/database.ts";
+import { DatabaseError } from "../utils/errors.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Migration file name pattern: 0001_description.up.sql / 0001_description.down.sql
+ * Migrations that cannot be written portably provide one pair of files per database instead:
+ * 0001_description.postgres.up.sql / 0001_description.sqlite.up.sql (and their down steps)
+ */
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)(?:\.(postgres|sqlite))?\.(up|down)\.sql$/;
+
+/**
+ * Bookkeeping table definition (PostgreSQL syntax, converted for SQLite)
+ */
+const MIGRATIONS_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMP DEFAULT NOW()
+);
+`;
+
+/**
+ * Migration discovered on disk
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+}
+
+/**
+ * Applied migration row
+ */
+export interface AppliedMigration extends RowObject {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+/**
+ * Migration status entry
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+}
+
+/**
+ * Migration service class
+ */
+export class MigrationService {
+  /**
+   * Load the migrations available in the migrations directory
+   * Files written for another database than the active one are ignored
+   * @returns Migrations sorted by version
+   * @throws DatabaseError if a version has no up step or is defined twice
+   */
+  async loadMigrations(): Promise<Migration[]> {
+    const migrations = new Map<number, Migration>();
+    const downPaths = new Map<number, string>();
+
+    for await (const entry of Deno.readDir(dbConfig.migrationsPath)) {
+      const match = entry.isFile ? MIGRATION_FILE_PATTERN.exec(entry.name) : null;
+      if (!match || (match[3] && match[3] !== db.getDatabaseSystem())) {
+        continue;
+      }
+
+      const version = parseInt(match[1]);
+      const path = `${dbConfig.migrationsPath}/${entry.name}`;
+
+      if (match[4] === "down") {
+        downPaths.set(version, path);
+        continue;
+      }
+
+      if (migrations.has(version)) {
+        throw new DatabaseError(`Duplicate migration version ${version}`);
+      }
+
+      migrations.set(version, {
+        version,
+        name: match[2],
+        upPath: path,
+        downPath: null,
+      });
+    }
+
+    for (const [version, path] of downPaths) {
+      const migration = migrations.get(version);
+      if (!migration) {
+        throw new DatabaseError(`Migration ${version} has a down step but no up step`);
+      }
+      migration.downPath = path;
+    }
+
+    return [...migrations.values()].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Get the migrations already applied to the database
+   * @returns Applied migrations sorted by version
+   */
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    await this.ensureMigrationsTable();
+
+    const result = await db.query<AppliedMigration>(
+      "SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC"
+    );
+
+    return result.rows.map(row => ({ ...row, version: Number(row.version) }));
+  }
+
+  /**
+   * Get the status of every known migration
+   * @returns Status of each migration, applied or pending
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    const migrations = await this.loadMigrations();
+    const applied = new Map(
+      (await this.getAppliedMigrations()).map(migration => [migration.version, migration])
+    );
+
+    return migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      applied_at: applied.get(migration.version)?.applied_at ?? null,
+    }));
+  }
+
+  /**
+   * Apply pending migrations
+   * @param targetVersion - Highest version to apply (default: all)
+   * @returns Migrations that were applied
+   */
+  async up(targetVersion = Number.MAX_SAFE_INTEGER): Promise<Migration[]> {
+    const migrations = await this.loadMigrations();
+    const applied = new Set((await this.getAppliedMigrations()).map(migration => migration.version));
+
+    const pending = migrations.filter(migration =>
+      !applied.has(migration.version) && migration.version <= targetVersion
+    );
+
+    if (pending.length === 0) {
+      logger.info("Database schema is up to date");
+      return [];
+    }
+
+    for (const migration of pending) {
+      logger.info(`Applying migration ${migration.version}_${migration.name}`);
+
+      await this.runInTransaction(migration.upPath, async () => {
+        // Plain INSERT: schema_migrations has no serial id for db.insert() to look up
+        await db.query(
+          "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      });
+    }
+
+    logger.info(`Applied ${pending.length} migration(s)`);
+    return pending;
+  }
+
+  /**
+   * Revert the most recently applied migrations
+   * @param steps - Number of migrations to revert (default: 1)
+   * @returns Migrations that were reverted
+   * @throws DatabaseError if an applied migration has no down step
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    const migrations = new Map(
+      (await this.loadMigrations()).map(migration => [migration.version, migration])
+    );
+    const applied = (await this.getAppliedMigrations()).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const { version } of applied) {
+      const migration = migrations.get(version);
+      if (!migration?.downPath) {
+        throw new DatabaseError(`Migration ${version} cannot be reverted: no down step found`);
+      }
+
+      logger.info(`Reverting migration ${migration.version}_${migration.name}`);
+
+      await this.runInTransaction(migration.downPath, async () => {
+        await db.delete("schema_migrations", "version = ?", [version]);
+      });
+
+      reverted.push(migration);
+    }
+
+    logger.info(`Reverted ${reverted.length} migration(s)`);
+    return reverted;
+  }
+
+  /**
+   * Create the bookkeeping table if it does not exist yet
+   */
+  private async ensureMigrationsTable(): Promise<void> {
+    await db.executeScript(this.toDialect(MIGRATIONS_TABLE_SQL));
+  }
+
+  /**
+   * Run a migration file and its bookkeeping step in a single transaction
+   * @param path - Path of the migration file
+   * @param record - Bookkeeping step to run after the script
+   */
+  private async runInTransaction(path: string, record: () => Promise<void>): Promise<void> {
+    const sql = await Deno.readTextFile(path);
+
+    await db.beginTransaction();
+
+    try {
+      await db.executeScript(this.toDialect(sql));
+      await record();
+      await db.commitTransaction();
+    } catch (error) {
+      await db.rollbackTransaction();
+
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error(`Migration ${path} failed`, err);
+      throw new DatabaseError(`Migration ${path} failed: ${err.message}`);
+    }
+  }
+
+  /**
+   * Translate migration SQL (written for PostgreSQL) to the active database
+   * @param sql - PostgreSQL SQL
+   * @returns SQL for the active database
+   */
+  private toDialect(sql: string): string {
+    return db.getDatabaseSystem() === "sqlite" ? convertPgSchemaToSqlite(sql) : sql;
+  }
+}
+
+// Create and export a singleton instance
+const migrationService = new MigrationService();
+export default migrationService;
@@ -0,0 +1,337 @@
+/**
+ * Moderation Service
+ *
+ * This service handles review moderation:
+ * - Review reports from users
+ * - The moderation queue of reported reviews
+ * - Moderator decisions (approve, hide, delete)
+ * - An append-only log of every moderation action
+ */
+
+import db from "./database-service.ts";
+import gameService from "./game-service.ts";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors.ts";
+import { AuthUser } from "../utils/auth.ts";
+import { MODERATION } from "../config/constants.ts";
+import logger from "../utils/logger.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Decision a moderator can take on a reported review
+ */
+export type ReviewModerationAction = typeof MODERATION.REVIEW_ACTIONS[number];
+
+/**
+ * Any action recorded in the moderation log
+ */
+export type ModerationLogAction = ReviewModerationAction | "ban" | "unban";
+
+/**
+ * Kind of entity a moderation action applies to
+ */
+export type ModerationTargetType = "review" | "user";
+
+/**
+ * Review report interface
+ */
+export interface ReviewReport extends RowObject {
+  id: number;
+  review_id: number;
+  reporter_id: number;
+  reason: string;
+  status: "pending" | "resolved";
+  created_at: string;
+  resolved_at: string | null;
+  reporter_username?: string;
+}
+
+/**
+ * Reported review waiting for a decision
+ */
+export interface ModerationQueueItem extends RowObject {
+  id: number;
+  game_id: number;
+  user_id: number;
+  username: string;
+  game_title: string | null;
+  rating: number;
+  content: string;
+  created_at: string;
+  hidden_at: string | null;
+  report_count: number;
+  first_reported_at: string;
+  reports: ReviewReport[];
+}
+
+/**
+ * Moderation log entry interface
+ */
+export interface ModerationLogEntry extends RowObject {
+  id: number;
+  moderator_id: number;
+  moderator_username: string | null;
+  action: ModerationLogAction;
+  target_type: ModerationTargetType;
+  target_id: number;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Sort key of the moderation queue, most reported first, then longest waiting
+ */
+const QUEUE_CURSOR_KEYS: CursorKey[] = [
+  { column: "report_count", direction: "DESC" },
+  { column: "sort_first_reported_at", direction: "ASC", internal: true },
+  { column: "id", direction: "ASC" },
+];
+
+/**
+ * Sort key of the moderation log, newest first
+ */
+const LOG_CURSOR_KEYS: CursorKey[] = [
+  { column: "id", direction: "DESC" },
+];
+
+/**
+ * Moderation service class
+ */
+export class ModerationService {
+  /**
+   * Report a review to the moderators
+   * @param reporterId - User reporting the review
+   * @param reviewId - Review ID
+   * @param reason - Why the review is abusive
+   * @returns Created report
+   * @throws NotFoundError if the review doesn't exist or is hidden
+   * @throws BadRequestError if users report their own review
+   * @throws ConflictError if the user already has a pending report on the review
+   */
+  async reportReview(reporterId: number, reviewId: number, reason: string): Promise<ReviewReport> {
+    const review = await gameService.getReviewById(reviewId);
+    if (!review || review.hidden_at) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
+    }
+
+    if (review.user_id === reporterId) {
+      throw new BadRequestError("You cannot report your own review");
+    }
+
+    const existing = await db.query<ReviewReport>(
+      "SELECT * FROM review_reports WHERE review_id = ? AND reporter_id = ?",
+      [reviewId, reporterId]
+    );
+
+    if (existing.rows[0]?.status === "pending") {
+      throw new ConflictError("You already reported this review");
+    }
+
+    // A review approved earlier can be reported again: reopen the previous report
+    if (existing.rows[0]) {
+      await db.update(
+        "review_reports",
+        {
+          reason,
+          status: "pending",
+          created_at: new Date().toISOString(),
+          resolved_at: null,
+        },
+        "id = ?",
+        [existing.rows[0].id]
+      );
+
+      return await this.getReportById(existing.rows[0].id);
+    }
+
+    const reportId = await db.insert("review_reports", {
+      review_id: reviewId,
+      reporter_id: reporterId,
+      reason,
+      status: "pending",
+      created_at: new Date().toISOString(),
+    });
+
+    return await this.getReportById(reportId);
+  }
+
+  /**
+   * Get the reviews with pending reports
+   * @param page - Requested page
+   * @returns Page of reported reviews, most reported first, with their pending reports
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getQueue(page: CursorPageRequest): Promise<CursorPage<ModerationQueueItem>> {
+    const result = await db.queryPage<Omit<ModerationQueueItem, "reports">>(
+      `SELECT
+        gr.id,
+        gr.game_id,
+        gr.user_id,
+        u.username,
+        g.title as game_title,
+        gr.rating,
+        gr.content,
+        gr.created_at,
+        gr.hidden_at,
+        COUNT(rr.id) as report_count,
+        MIN(rr.created_at) as first_reported_at,
+        CAST(MIN(rr.created_at) AS TEXT) as sort_first_reported_at
+      FROM review_reports rr
+      JOIN game_reviews gr ON rr.review_id = gr.id
+      JOIN users u ON gr.user_id = u.id
+      LEFT JOIN games g ON g.id = CAST(gr.game_id AS INTEGER)
+      WHERE rr.status = 'pending'
+      GROUP BY gr.id, gr.game_id, gr.user_id, u.username, g.title, gr.rating, gr.content, gr.created_at, gr.hidden_at`,
+      [],
+      QUEUE_CURSOR_KEYS,
+      page
+    );
+
+    if (result.items.length === 0) {
+      return { ...result, items: [] };
+    }
+
+    // Attach the pending reports of the reviews on this page
+    const reviewIds = result.items.map(row => row.id);
+    const reportsResult = await db.query<ReviewReport>(
+      `SELECT
+        rr.*,
+        u.username as reporter_username
+      FROM review_reports rr
+      JOIN users u ON rr.reporter_id = u.id
+      WHERE rr.status = 'pending' AND rr.review_id IN (${reviewIds.map(() => "?").join(", ")})
+      ORDER BY rr.created_at ASC`,
+      reviewIds
+    );
+
+    const items = result.items.map(row => ({
+      ...row,
+      report_count: Number(row.report_count),
+      reports: reportsResult.rows.filter(report => report.review_id === row.id),
+    }));
+
+    return { ...result, items };
+  }
+
+  /**
+   * Apply a moderator decision to a review and close its pending reports
+   * - approve: the review stays (or becomes) visible
+   * - hide: the review disappears from listings but is kept
+   * - delete: the review is removed for good
+   * The decision, the closed reports and the log entry are written in one transaction
+   * @param moderator - Moderator taking the decision
+   * @param reviewId - Review ID
+   * @param action - Decision
+   * @param reason - Why the decision was taken
+   * @throws NotFoundError if the review doesn't exist
+   */
+  async moderateReview(
+    moderator: AuthUser,
+    reviewId: number,
+    action: ReviewModerationAction,
+    reason: string | null
+  ): Promise<void> {
+    const review = await gameService.getReviewById(reviewId);
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
+    }
+
+    const moderatorId = parseInt(moderator.id);
+
+    // Close the pending reports: the decision answers all of them
+    const recordDecision = async () => {
+      await db.update(
+        "review_reports",
+        { status: "resolved", resolved_at: new Date().toISOString() },
+        "review_id = ? AND status = 'pending'",
+        [reviewId]
+      );
+      await this.logAction(moderatorId, action, "review", reviewId, reason);
+    };
+
+    if (action === "delete") {
+      await gameService.deleteReview(moderatorId, reviewId, true, recordDecision);
+    } else {
+      await gameService.setReviewHidden(reviewId, action === "hide", recordDecision);
+    }
+
+    logger.info(`Review ${reviewId} moderated by ${moderator.username}: ${action}`);
+  }
+
+  /**
+   * Record a moderation action
+   * The log is append-only: entries are never updated or deleted
+   * @param moderatorId - Moderator who acted
+   * @param action - Action taken
+   * @param targetType - Kind of entity acted upon
+   * @param targetId - ID of the entity acted upon
+   * @param reason - Why the action was taken
+   */
+  async logAction(
+    moderatorId: number,
+    action: ModerationLogAction,
+    targetType: ModerationTargetType,
+    targetId: number,
+    reason: string | null
+  ): Promise<void> {
+    await db.insert("moderation_log", {
+      moderator_id: moderatorId,
+      action,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Get the moderation log
+   * @param page - Requested page
+   * @param targetType - Only return actions on this kind of entity (optional)
+   * @returns Page of log entries, newest first
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getLog(
+    page: CursorPageRequest,
+    targetType?: ModerationTargetType
+  ): Promise<CursorPage<ModerationLogEntry>> {
+    const filter = targetType ? "WHERE ml.target_type = ?" : "";
+    const filterParams = targetType ? [targetType] : [];
+
+    // Moderators may have been deleted since, keep their entries
+    return await db.queryPage<ModerationLogEntry>(
+      `SELECT
+        ml.*,
+        u.username as moderator_username
+      FROM moderation_log ml
+      LEFT JOIN users u ON ml.moderator_id = u.id
+      ${filter}`,
+      filterParams,
+      LOG_CURSOR_KEYS,
+      page
+    );
+  }
+
+  /**
+   * Get a report by ID
+   * @param id - Report ID
+   * @returns Report
+   * @throws Error if the report can't be found
+   */
+  private async getReportById(id: number): Promise<ReviewReport> {
+    const result = await db.query<ReviewReport>(
+      "SELECT * FROM review_reports WHERE id = ?",
+      [id]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error("Failed to retrieve review report");
+    }
+
+    return result.rows[0];
+  }
+}
+
+// Create and export a singleton instance
+const moderationService = new ModerationService();
+export default moderationService;
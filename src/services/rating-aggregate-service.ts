@@ -0,0 +1,94 @@
+/**
+ * Rating Aggregate Service
+ *
+ * This service maintains the game_rating_aggregates table, one row per game
+ * with visible reviews holding their count, sum and average. Game listings read
+ * ratings from it instead of aggregating game_reviews on every request:
+ * - Refreshing a game's aggregate after each review write
+ * - Rebuilding every aggregate (backfilling, or repairing after manual edits)
+ */
+
+import db from "./database-service.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Aggregate of the visible reviews of one game, selected from game_reviews.
+ * Only rated reviews count; games without any produce no row
+ */
+const AGGREGATE_SELECT_SQL = `SELECT
+    CAST(game_id AS INTEGER) as game_id,
+    COUNT(rating) as review_count,
+    SUM(rating) as rating_sum,
+    AVG(rating) as avg_rating,
+    CURRENT_TIMESTAMP as updated_at
+  FROM game_reviews
+  WHERE hidden_at IS NULL AND rating IS NOT NULL`;
+
+/**
+ * Columns filled by AGGREGATE_SELECT_SQL
+ */
+const AGGREGATE_INSERT_SQL =
+  "INSERT INTO game_rating_aggregates (game_id, review_count, rating_sum, avg_rating, updated_at)";
+
+/**
+ * Rating aggregate service class
+ */
+export class RatingAggregateService {
+  /**
+   * Recompute the aggregate of a game from its visible reviews
+   * Call it in the transaction writing the review, so listings never see one without the other
+   * @param gameId - Game ID
+   */
+  async refreshGame(gameId: number): Promise<void> {
+    await db.delete("game_rating_aggregates", "game_id = ?", [gameId]);
+
+    await db.query(
+      `${AGGREGATE_INSERT_SQL}
+      ${AGGREGATE_SELECT_SQL} AND game_id = ?
+      GROUP BY game_id`,
+      [gameId]
+    );
+  }
+
+  /**
+   * Recompute the aggregates of every game
+   * @returns Number of games with visible reviews
+   */
+  async rebuild(): Promise<number> {
+    await db.transaction(async () => {
+      await db.query("DELETE FROM game_rating_aggregates");
+
+      await db.query(
+        `${AGGREGATE_INSERT_SQL}
+        ${AGGREGATE_SELECT_SQL}
+        GROUP BY game_id`
+      );
+    });
+
+    const result = await db.query<{ count: number }>(
+      "SELECT COUNT(*) as count FROM game_rating_aggregates"
+    );
+    const count = Number(result.rows[0]?.count || 0);
+
+    logger.info(`Rebuilt rating aggregates of ${count} games`);
+
+    return count;
+  }
+
+  /**
+   * Get the average of all visible reviews, across games
+   * @returns Average rating on the internal scale, or null if there is no review
+   */
+  async getOverallAverage(): Promise<number | null> {
+    const result = await db.query<{ avg_rating: number | null }>(
+      "SELECT SUM(rating_sum) * 1.0 / SUM(review_count) as avg_rating FROM game_rating_aggregates"
+    );
+    const average = result.rows[0]?.avg_rating;
+
+    return average === null || average === undefined ? null : Number(average);
+  }
+}
+
+// Create and export a singleton instance
+const ratingAggregateService = new RatingAggregateService();
+export default ratingAggregateService;
@@ -0,0 +1,275 @@
+/**
+ * Review Engagement Service
+ *
+ * This service handles how users interact with reviews:
+ * - Liking and unliking reviews
+ * - Comments on reviews, with one level of replies
+ */
+
+import db from "./database-service.ts";
+import gameService, { GameReview } from "./game-service.ts";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Review comment interface
+ */
+export interface ReviewComment extends RowObject {
+  id: number;
+  review_id: number;
+  user_id: number;
+  parent_id: number | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  username?: string;
+}
+
+/**
+ * Top-level comment with its replies
+ */
+export interface ReviewCommentThread extends ReviewComment {
+  replies: ReviewComment[];
+}
+
+/**
+ * Sort key of comment threads, oldest first
+ */
+const COMMENT_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_created_at", direction: "ASC", internal: true },
+  { column: "id", direction: "ASC" },
+];
+
+/**
+ * Review engagement service class
+ */
+export class ReviewEngagementService {
+  /**
+   * Like a review
+   * @param userId - User liking the review
+   * @param reviewId - Review ID
+   * @returns Number of likes of the review
+   * @throws NotFoundError if the review doesn't exist or is hidden
+   * @throws ConflictError if the user already likes the review
+   */
+  async likeReview(userId: number, reviewId: number): Promise<number> {
+    await this.getVisibleReview(reviewId);
+
+    const existing = await db.query<{ user_id: number }>(
+      "SELECT user_id FROM review_likes WHERE review_id = ? AND user_id = ?",
+      [reviewId, userId]
+    );
+
+    if (existing.rows.length > 0) {
+      throw new ConflictError("You already like this review");
+    }
+
+    await db.query(
+      "INSERT INTO review_likes (review_id, user_id, created_at) VALUES (?, ?, ?)",
+      [reviewId, userId, new Date().toISOString()]
+    );
+
+    return await this.getLikeCount(reviewId);
+  }
+
+  /**
+   * Remove a like from a review
+   * @param userId - User who liked the review
+   * @param reviewId - Review ID
+   * @returns Number of likes of the review
+   * @throws NotFoundError if the user doesn't like the review
+   */
+  async unlikeReview(userId: number, reviewId: number): Promise<number> {
+    const result = await db.delete(
+      "review_likes",
+      "review_id = ? AND user_id = ?",
+      [reviewId, userId]
+    );
+
+    if (result === 0) {
+      throw new NotFoundError("You do not like this review");
+    }
+
+    return await this.getLikeCount(reviewId);
+  }
+
+  /**
+   * Get the comments of a review
+   * @param reviewId - Review ID
+   * @param page - Requested page of top-level comments
+   * @returns Page of top-level comments, oldest first, each with all its replies
+   * @throws NotFoundError if the review doesn't exist or is hidden
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getComments(reviewId: number, page: CursorPageRequest): Promise<CursorPage<ReviewCommentThread>> {
+    await this.getVisibleReview(reviewId);
+
+    // Replies are paged with their thread
+    const result = await db.queryPage<ReviewComment>(
+      `SELECT
+        rc.*,
+        u.username,
+        CAST(rc.created_at AS TEXT) as sort_created_at
+      FROM review_comments rc
+      JOIN users u ON rc.user_id = u.id
+      WHERE rc.review_id = ? AND rc.parent_id IS NULL`,
+      [reviewId],
+      COMMENT_CURSOR_KEYS,
+      page
+    );
+
+    if (result.items.length === 0) {
+      return { ...result, items: [] };
+    }
+
+    // Attach the replies of the comments on this page
+    const commentIds = result.items.map(comment => comment.id);
+    const repliesResult = await db.query<ReviewComment>(
+      `SELECT
+        rc.*,
+        u.username
+      FROM review_comments rc
+      JOIN users u ON rc.user_id = u.id
+      WHERE rc.parent_id IN (${commentIds.map(() => "?").join(", ")})
+      ORDER BY rc.created_at ASC, rc.id ASC`,
+      commentIds
+    );
+
+    const items = result.items.map(comment => ({
+      ...comment,
+      replies: repliesResult.rows.filter(reply => reply.parent_id === comment.id),
+    }));
+
+    return { ...result, items };
+  }
+
+  /**
+   * Comment on a review, or reply to a comment
+   * @param userId - Author of the comment
+   * @param reviewId - Review ID
+   * @param content - Comment text
+   * @param parentId - Comment replied to (optional, must be a top-level comment of the same review)
+   * @returns Created comment
+   * @throws NotFoundError if the review or the parent comment doesn't exist
+   * @throws BadRequestError if the parent comment is itself a reply
+   */
+  async addComment(
+    userId: number,
+    reviewId: number,
+    content: string,
+    parentId: number | null = null
+  ): Promise<ReviewComment> {
+    await this.getVisibleReview(reviewId);
+
+    if (parentId !== null) {
+      const parent = await this.getCommentById(parentId);
+
+      if (!parent || parent.review_id !== reviewId) {
+        throw new NotFoundError(`Comment with ID ${parentId} not found`);
+      }
+
+      if (parent.parent_id !== null) {
+        throw new BadRequestError("Replies cannot be replied to, reply to the original comment instead");
+      }
+    }
+
+    const now = new Date().toISOString();
+    const commentId = await db.insert("review_comments", {
+      review_id: reviewId,
+      user_id: userId,
+      parent_id: parentId,
+      content,
+      created_at: now,
+      updated_at: now,
+    });
+
+    const comment = await this.getCommentById(commentId);
+    if (!comment) {
+      throw new Error("Failed to retrieve created comment");
+    }
+
+    return comment;
+  }
+
+  /**
+   * Delete a comment and its replies
+   * @param userId - User deleting the comment
+   * @param reviewId - Review the comment belongs to
+   * @param commentId - Comment ID
+   * @param canModerate - Whether the user may delete other users' comments
+   * @throws NotFoundError if the comment doesn't exist on this review
+   * @throws ForbiddenError if the user is neither the author nor a moderator
+   */
+  async deleteComment(
+    userId: number,
+    reviewId: number,
+    commentId: number,
+    canModerate = false
+  ): Promise<void> {
+    const comment = await this.getCommentById(commentId);
+
+    if (!comment || comment.review_id !== reviewId) {
+      throw new NotFoundError(`Comment with ID ${commentId} not found`);
+    }
+
+    if (comment.user_id !== userId && !canModerate) {
+      throw new ForbiddenError("You can only delete your own comments");
+    }
+
+    await db.delete("review_comments", "id = ? OR parent_id = ?", [commentId, commentId]);
+  }
+
+  /**
+   * Get a review that users can interact with
+   * @param reviewId - Review ID
+   * @returns Review
+   * @throws NotFoundError if the review doesn't exist or is hidden
+   */
+  private async getVisibleReview(reviewId: number): Promise<GameReview> {
+    const review = await gameService.getReviewById(reviewId);
+
+    if (!review || review.hidden_at) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
+    }
+
+    return review;
+  }
+
+  /**
+   * Get a comment by ID
+   * @param id - Comment ID
+   * @returns Comment with its author's username, or null if not found
+   */
+  private async getCommentById(id: number): Promise<ReviewComment | null> {
+    const result = await db.query<ReviewComment>(
+      `SELECT
+        rc.*,
+        u.username
+      FROM review_comments rc
+      JOIN users u ON rc.user_id = u.id
+      WHERE rc.id = ?`,
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Count the likes of a review
+   * @param reviewId - Review ID
+   * @returns Number of likes
+   */
+  private async getLikeCount(reviewId: number): Promise<number> {
+    const result = await db.query<{ count: number }>(
+      "SELECT COUNT(*) as count FROM review_likes WHERE review_id = ?",
+      [reviewId]
+    );
+
+    return Number(result.rows[0]?.count || 0);
+  }
+}
+
+// Create and export a singleton instance
+const reviewEngagementService = new ReviewEngagementService();
+export default reviewEngagementService;
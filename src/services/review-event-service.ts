@@ -0,0 +1,227 @@
+/**
+ * Review Event Service
+ *
+ * This service is the single pipeline for review notifications:
+ * - Review mutations publish new_review, updated_review and deleted_review events
+ * - Each event carries the game's fresh aggregate rating and a monotonic event ID
+ * - Delivery channels (WebSockets, Server-Sent Events) subscribe to receive every event
+ * - Clients filter events by topic: "all", "game:<gameId>" or "user:<userId>"
+ * - Recent events are kept in a ring buffer so reconnecting clients can catch up
+ */
+
+import db from "./database-service.ts";
+import logger from "../utils/logger.ts";
+import { ReviewNotification, ReviewResponse } from "../models/review.ts";
+import { GameRating } from "../models/game.ts";
+import { REVIEW_NOTIFICATIONS } from "../config/constants.ts";
+import { redactSpoilers } from "../utils/spoilers.ts";
+import { formatRating, RatingScale } from "../utils/ratings.ts";
+
+/**
+ * Kind of review event
+ */
+export type ReviewEventType = ReviewNotification["type"];
+
+/**
+ * Function receiving published review events
+ */
+export type ReviewEventListener = (notification: ReviewNotification) => void;
+
+/**
+ * Events missed since a given event ID
+ */
+export interface ReviewEventReplay {
+  /** Buffered events, oldest first */
+  events: ReviewNotification[];
+  /** False when some missed events are no longer buffered (or the server restarted) */
+  complete: boolean;
+}
+
+// Valid topic names
+const TOPIC_PATTERN = /^(all|game:[A-Za-z0-9_-]+|user:\d+)$/;
+
+/**
+ * Check whether a topic name is valid
+ * @param topic - Topic name
+ * @returns True for "all", "game:<gameId>" and "user:<userId>"
+ */
+export function isValidTopic(topic: string): boolean {
+  return TOPIC_PATTERN.test(topic);
+}
+
+/**
+ * Get the topics of a notification: the firehose, the reviewed game and the review author
+ * @param notification - Review notification
+ * @returns Topic names
+ */
+export function getNotificationTopics(notification: ReviewNotification): string[] {
+  return [
+    REVIEW_NOTIFICATIONS.FIREHOSE_TOPIC,
+    `game:${notification.gameId}`,
+    `user:${notification.review.userId}`,
+  ];
+}
+
+/**
+ * Check whether a notification belongs to one of the subscribed topics
+ * @param notification - Review notification
+ * @param topics - Subscribed topics
+ * @returns True if the subscriber should receive the notification
+ */
+export function matchesTopics(notification: ReviewNotification, topics: Set<string>): boolean {
+  return getNotificationTopics(notification).some(topic => topics.has(topic));
+}
+
+/**
+ * How a subscriber receives notifications, chosen when connecting
+ */
+export interface NotificationOptions {
+  /** Whether the subscriber connected with ?reveal_spoilers=true */
+  revealSpoilers: boolean;
+  /** Scale the ratings are presented in (?scale=) */
+  ratingScale: RatingScale;
+}
+
+/**
+ * Prepare a notification for a subscriber
+ * Notifications are published and buffered with the full review content and internal ratings;
+ * ratings are converted and spoilers redacted on delivery, following the subscriber's options
+ * @param notification - Review notification
+ * @param options - Subscriber's options
+ * @returns Notification to send
+ */
+export function prepareNotification(
+  notification: ReviewNotification,
+  options: NotificationOptions
+): ReviewNotification {
+  const review = {
+    ...notification.review,
+    rating: formatRating(notification.review.rating, options.ratingScale),
+  };
+
+  if (!options.revealSpoilers) {
+    const { content, redacted } = redactSpoilers(review.content, review.containsSpoilers);
+    review.content = content;
+    review.spoilersRedacted = redacted;
+  }
+
+  return {
+    ...notification,
+    review,
+    gameRating: {
+      ...notification.gameRating,
+      averageRating: formatRating(notification.gameRating.averageRating, options.ratingScale).toFixed(1),
+    },
+  };
+}
+
+/**
+ * Review event service class
+ */
+export class ReviewEventService {
+  private listeners = new Set<ReviewEventListener>();
+  private lastEventId = 0;
+  private buffer: ReviewNotification[] = [];
+
+  /**
+   * Register a listener for every published event
+   * @param listener - Function receiving the notifications
+   * @returns Function removing the listener
+   */
+  subscribe(listener: ReviewEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Publish a review event to every listener
+   * Must be called after the mutation so the aggregate rating is up to date
+   * @param type - Kind of event
+   * @param review - Review concerned by the event
+   * @returns Published notification
+   */
+  async publish(type: ReviewEventType, review: ReviewResponse): Promise<ReviewNotification> {
+    const gameRating = await this.getGameRating(String(review.gameId));
+
+    // Assign the ID only once the event is ready, so IDs follow delivery order
+    const notification: ReviewNotification = {
+      eventId: ++this.lastEventId,
+      type,
+      gameId: String(review.gameId),
+      review,
+      gameRating,
+    };
+
+    this.buffer.push(notification);
+    if (this.buffer.length > REVIEW_NOTIFICATIONS.REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(notification);
+      } catch (error) {
+        // A failing channel must not fail the mutation or the other channels
+        logger.error(`Review event listener failed for ${type}`, error);
+      }
+    }
+
+    return notification;
+  }
+
+  /**
+   * Get the ID of the last published event
+   * @returns Event ID, 0 if nothing was published yet
+   */
+  getLastEventId(): number {
+    return this.lastEventId;
+  }
+
+  /**
+   * Get the buffered events published after a given event
+   * @param eventId - Last event ID received by the client
+   * @returns Missed events and whether the replay covers all of them
+   */
+  getEventsSince(eventId: number): ReviewEventReplay {
+    // IDs restart from 0 with the process: a higher ID comes from a previous run,
+    // so everything buffered since the restart is missed
+    if (eventId > this.lastEventId) {
+      return { events: [...this.buffer], complete: false };
+    }
+
+    const oldestEventId = this.buffer[0]?.eventId ?? this.lastEventId + 1;
+
+    return {
+      events: this.buffer.filter(event => event.eventId > eventId),
+      complete: eventId >= oldestEventId - 1,
+    };
+  }
+
+  /**
+   * Compute the aggregate rating of a game, from its visible reviews
+   * @param gameId - Game ID as stored in game_reviews
+   * @returns Average rating and number of reviews
+   */
+  private async getGameRating(gameId: string): Promise<GameRating> {
+    const result = await db.query<{ avg_rating: number | null; review_count: number }>(
+      `SELECT
+        AVG(rating) as avg_rating,
+        COUNT(id) as review_count
+      FROM game_reviews
+      WHERE game_id = ? AND hidden_at IS NULL`,
+      [gameId]
+    );
+
+    const stats = result.rows[0];
+
+    return {
+      gameId,
+      averageRating: Number(stats?.avg_rating || 0).toFixed(1),
+      ratingCount: Number(stats?.review_count || 0),
+    };
+  }
+}
+
+// Create and export a singleton instance
+const reviewEventService = new ReviewEventService();
+export default reviewEventService;
@@ -0,0 +1,27 @@
+/**
+ * Search Service Tests
+ */
+
+import { assertEquals } from "https://deno.land/std@0.190.0/assert/mod.ts";
+import { foldSearchText, getSearchTerms } from "./search-service.ts";
+import { SEARCH } from "../config/constants.ts";
+
+Deno.test("foldSearchText lowercases and removes accents", () => {
+  assertEquals(foldSearchText("Pokémon Écarlate"), "pokemon ecarlate");
+  assertEquals(foldSearchText("ÑOÑO Çà"), "nono ca");
+  assertEquals(foldSearchText("Ωμέγα"), "ωμεγα");
+});
+
+Deno.test("getSearchTerms splits queries into folded words, ignoring punctuation", () => {
+  assertEquals(getSearchTerms("  The Legend of Zelda: Breath-of-the-Wild!! "), [
+    "the", "legend", "of", "zelda", "breath", "of", "the", "wild",
+  ]);
+  assertEquals(getSearchTerms("Pokémon 2"), ["pokemon", "2"]);
+  assertEquals(getSearchTerms("?!- ..."), []);
+});
+
+Deno.test("getSearchTerms keeps at most SEARCH.MAX_TERMS words", () => {
+  const words = Array.from({ length: SEARCH.MAX_TERMS + 3 }, (_, index) => `word${index}`);
+
+  assertEquals(getSearchTerms(words.join(" ")), words.slice(0, SEARCH.MAX_TERMS));
+});
@@ -0,0 +1,235 @@
+/**
+ * Search Service
+ *
+ * This service implements full-text game search behind one interface:
+ * - One backend per database: FTS5 on SQLite, tsvector indexes on PostgreSQL
+ * - Relevance ranking over titles, developers and descriptions (titles weigh most)
+ * - Prefix matching, typo tolerance, and case and accent folding
+ */
+
+import db, { DatabaseSystem } from "./database-service.ts";
+import { TAG_FILTER_SQL } from "./tag-service.ts";
+import { SEARCH } from "../config/constants.ts";
+import { DatabaseError } from "../utils/errors.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Filters applied on top of a search
+ */
+export interface GameSearchFilters {
+  /** Only return games carrying this tag */
+  tag?: string;
+}
+
+/**
+ * Page of search results: IDs of the matching games, most relevant first
+ */
+export type GameSearchResult = CursorPage<number>;
+
+/**
+ * Sort key of search results, the most relevant first (relevance selected by each backend)
+ * @param direction - Order of the relevance values, from the most relevant
+ * @returns Sort key, ending with the title and ID of the games
+ */
+function getSearchCursorKeys(direction: "ASC" | "DESC"): CursorKey[] {
+  return [
+    { column: "relevance", direction, internal: true },
+    { column: "title", direction: "ASC" },
+    { column: "id", direction: "ASC" },
+  ];
+}
+
+/**
+ * Full-text search implementation of a database
+ */
+export interface GameSearchBackend {
+  /**
+   * Find the games matching every search term
+   * @param terms - Folded search terms (see getSearchTerms)
+   * @param page - Requested page
+   * @param filters - Filters applied on top of the search
+   * @returns Page of results
+   * @throws BadRequestError if the cursor is malformed
+   */
+  search(terms: string[], page: CursorPageRequest, filters: GameSearchFilters): Promise<GameSearchResult>;
+}
+
+/**
+ * Fold text for searching: lowercase, without accents ("Pokémon" becomes "pokemon")
+ * @param text - Text to fold
+ * @returns Folded text
+ */
+export function foldSearchText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Split a search query into folded words, ignoring punctuation
+ * @param query - Search query
+ * @returns Search terms, at most SEARCH.MAX_TERMS
+ */
+export function getSearchTerms(query: string): string[] {
+  return (foldSearchText(query).match(/[\p{L}\p{N}]+/gu) || []).slice(0, SEARCH.MAX_TERMS);
+}
+
+/**
+ * Count the single-character insertions, deletions and substitutions turning a word into another
+ * @param a - First word
+ * @param b - Second word
+ * @returns Levenshtein distance
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Search backend using the games_fts FTS5 table (SQLite)
+ * Typos are corrected against the indexed vocabulary, among words starting with the same letter
+ */
+export class SqliteGameSearchBackend implements GameSearchBackend {
+  async search(terms: string[], page: CursorPageRequest, filters: GameSearchFilters): Promise<GameSearchResult> {
+    // Every term must match, as a prefix or through one of its corrections
+    const groups: string[] = [];
+    for (const term of terms) {
+      const alternatives = [`"${term}"*`, ...(await this.getCorrections(term)).map(word => `"${word}"`)];
+      groups.push(`(${alternatives.join(" OR ")})`);
+    }
+
+    const tagFilter = filters.tag ? ` AND ${TAG_FILTER_SQL}` : "";
+    const filterParams = filters.tag ? [groups.join(" AND "), filters.tag] : [groups.join(" AND ")];
+
+    // bm25() weights follow the column order of games_fts: title, developer, description; lower is better
+    const result = await db.queryPage<{ id: number }>(
+      `SELECT g.id, g.title, bm25(games_fts, 10.0, 3.0, 1.0) as relevance
+      FROM games_fts
+      JOIN games g ON g.id = games_fts.rowid
+      WHERE games_fts MATCH ?${tagFilter}`,
+      filterParams,
+      getSearchCursorKeys("ASC"),
+      page
+    );
+
+    return { ...result, items: result.items.map(row => row.id) };
+  }
+
+  /**
+   * Find the indexed words a misspelled search term may stand for
+   * @param term - Folded search term
+   * @returns Closest indexed words, none if the term already matches indexed words
+   */
+  private async getCorrections(term: string): Promise<string[]> {
+    if (term.length < SEARCH.MIN_FUZZY_TERM_LENGTH) {
+      return [];
+    }
+
+    // Terms are letters and digits only, they can't contain LIKE wildcards
+    const prefixMatch = await db.query<{ term: string }>(
+      "SELECT term FROM games_fts_vocab WHERE term LIKE ? LIMIT 1",
+      [`${term}%`]
+    );
+    if (prefixMatch.rows.length > 0) {
+      return [];
+    }
+
+    const maxTypos = term.length >= SEARCH.TWO_TYPOS_TERM_LENGTH ? 2 : 1;
+    const candidates = await db.query<{ term: string }>(
+      "SELECT term FROM games_fts_vocab WHERE term LIKE ? AND length(term) BETWEEN ? AND ?",
+      [`${term[0]}%`, term.length - maxTypos, term.length + maxTypos]
+    );
+
+    return candidates.rows
+      .map(candidate => ({ word: candidate.term, distance: getEditDistance(term, candidate.term) }))
+      .filter(candidate => candidate.distance <= maxTypos)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, SEARCH.MAX_CORRECTIONS)
+      .map(candidate => candidate.word);
+  }
+}
+
+/**
+ * Search backend using the game_search_vector() and trigram indexes (PostgreSQL)
+ * Typos are tolerated in titles, through trigram word similarity with the whole query
+ */
+export class PostgresGameSearchBackend implements GameSearchBackend {
+  async search(terms: string[], page: CursorPageRequest, filters: GameSearchFilters): Promise<GameSearchResult> {
+    // Terms are letters and digits only, they can't contain tsquery operators
+    const tsquery = terms.map(term => `${term}:*`).join(" & ");
+    const text = terms.join(" ");
+
+    const condition = `(game_search_vector(g.title, g.developer, g.description) @@ to_tsquery('simple', ?)
+        OR ? <% search_fold(g.title))`;
+    const tagFilter = filters.tag ? ` AND ${TAG_FILTER_SQL}` : "";
+    const filterParams = filters.tag ? [tsquery, text, filters.tag] : [tsquery, text];
+
+    const result = await db.queryPage<{ id: number }>(
+      `SELECT
+        g.id,
+        g.title,
+        ts_rank_cd(game_search_vector(g.title, g.developer, g.description), to_tsquery('simple', ?))
+          + word_similarity(?, search_fold(g.title)) as relevance
+      FROM games g
+      WHERE ${condition}${tagFilter}`,
+      [tsquery, text, ...filterParams],
+      getSearchCursorKeys("DESC"),
+      page
+    );
+
+    return { ...result, items: result.items.map(row => row.id) };
+  }
+}
+
+/**
+ * Search service class
+ */
+export class SearchService {
+  private backends: Record<DatabaseSystem, GameSearchBackend> = {
+    sqlite: new SqliteGameSearchBackend(),
+    postgres: new PostgresGameSearchBackend(),
+  };
+
+  /**
+   * Search games by title, developer and description
+   * @param query - Search query
+   * @param page - Requested page
+   * @param filters - Filters applied on top of the search
+   * @returns IDs of the matching games on the page, most relevant first
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async searchGames(
+    query: string,
+    page: CursorPageRequest,
+    filters: GameSearchFilters = {}
+  ): Promise<GameSearchResult> {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) {
+      return { items: [], next: null, prev: null, total: page.withTotal ? 0 : undefined };
+    }
+
+    const system = db.getDatabaseSystem();
+    if (!system) {
+      throw new DatabaseError("Database not initialized");
+    }
+
+    return await this.backends[system].search(terms, page, filters);
+  }
+}
+
+// Create and export a singleton instance
+const searchService = new SearchService();
+export default searchService;
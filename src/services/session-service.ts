@@ -0,0 +1,258 @@
+/**
+ * Session Service
+ *
+ * This service handles server-side login sessions:
+ * - Session creation with a rotating refresh token
+ * - Refresh token rotation, revoking sessions whose replaced token is presented again
+ * - Active session listing and revocation
+ */
+
+import db from "./database-service.ts";
+import { NotFoundError, UnauthorizedError } from "../utils/errors.ts";
+import { AUTH } from "../config/constants.ts";
+import { UserRole } from "../models/user.ts";
+import { generateOpaqueToken, hashToken } from "../utils/tokens.ts";
+import { RowObject } from "./database-service.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Session interface
+ */
+export interface Session extends RowObject {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_refresh_token_hash: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+/**
+ * Session as shown to its owner (without the token hash)
+ */
+export type SessionInfo = Omit<Session, "refresh_token_hash" | "previous_refresh_token_hash">;
+
+/**
+ * Client information recorded with a session
+ */
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Session service class
+ */
+export class SessionService {
+  /**
+   * Open a session for a user
+   * @param userId - User ID
+   * @param client - Device the user logs in from
+   * @returns Created session and its refresh token (only returned here, only its hash is stored)
+   */
+  async createSession(userId: number, client: SessionClient): Promise<{
+    session: Session;
+    refreshToken: string;
+  }> {
+    const refreshToken = generateOpaqueToken();
+    const now = new Date();
+
+    const sessionId = await db.insert("sessions", {
+      user_id: userId,
+      refresh_token_hash: await hashToken(refreshToken),
+      user_agent: client.userAgent,
+      ip_address: client.ipAddress,
+      created_at: now.toISOString(),
+      last_used_at: now.toISOString(),
+      expires_at: this.getExpiryDate(now),
+    });
+
+    const session = await this.getSessionById(sessionId);
+    if (!session) {
+      throw new Error("Failed to retrieve created session");
+    }
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * The presented token stops working, and the session expiry is pushed back.
+   * A token already replaced by a rotation has leaked, or been used twice: its session is revoked.
+   * @param refreshToken - Current refresh token
+   * @returns Session and its new refresh token
+   * @throws UnauthorizedError if the token is unknown, replaced, expired or its session revoked
+   */
+  async rotateRefreshToken(refreshToken: string): Promise<{
+    session: Session;
+    refreshToken: string;
+  }> {
+    const tokenHash = await hashToken(refreshToken);
+    const result = await db.query<Session>(
+      "SELECT * FROM sessions WHERE refresh_token_hash = ?",
+      [tokenHash]
+    );
+
+    const session = result.rows[0];
+    if (!session) {
+      await this.revokeReusedToken(tokenHash);
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+
+    if (!this.isActive(session)) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+
+    const newRefreshToken = generateOpaqueToken();
+    const now = new Date();
+
+    // Only one of concurrent rotations of the same token succeeds
+    const updated = await db.update(
+      "sessions",
+      {
+        refresh_token_hash: await hashToken(newRefreshToken),
+        previous_refresh_token_hash: tokenHash,
+        last_used_at: now.toISOString(),
+        expires_at: this.getExpiryDate(now),
+      },
+      "id = ? AND refresh_token_hash = ? AND revoked_at IS NULL",
+      [session.id, tokenHash]
+    );
+
+    if (updated === 0) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+
+    const rotatedSession = await this.getSessionById(session.id);
+    if (!rotatedSession) {
+      throw new Error("Failed to retrieve refreshed session");
+    }
+
+    return { session: rotatedSession, refreshToken: newRefreshToken };
+  }
+
+  /**
+   * Get the current role of the owner of an active session
+   * Roles are read on every request so role changes apply without logging out
+   * @param sessionId - Session ID
+   * @param userId - Expected owner of the session
+   * @returns User role, or null if the session doesn't exist, belongs to another user, or is revoked or expired
+   */
+  async getActiveSessionRole(sessionId: number, userId: number): Promise<UserRole | null> {
+    const result = await db.query<Session & { role: UserRole }>(
+      `SELECT s.*, u.role
+      FROM sessions s
+      JOIN users u ON s.user_id = u.id
+      WHERE s.id = ? AND s.user_id = ?`,
+      [sessionId, userId]
+    );
+
+    const session = result.rows[0];
+
+    return session && this.isActive(session) ? session.role : null;
+  }
+
+  /**
+   * Get the active sessions of a user
+   * @param userId - User ID
+   * @returns Sessions, most recently used first
+   */
+  async getActiveSessions(userId: number): Promise<SessionInfo[]> {
+    const result = await db.query<Session>(
+      `SELECT *
+      FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_used_at DESC`,
+      [userId, new Date().toISOString()]
+    );
+
+    return result.rows.map(({ refresh_token_hash: _, previous_refresh_token_hash: __, ...session }) => session);
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * @param userId - User ID
+   * @param sessionId - Session ID
+   * @throws NotFoundError if the session doesn't exist, belongs to another user or is already revoked
+   */
+  async revokeSession(userId: number, sessionId: number): Promise<void> {
+    const session = await this.getSessionById(sessionId);
+
+    if (!session || session.user_id !== userId || session.revoked_at) {
+      throw new NotFoundError(`Session with ID ${sessionId} not found`);
+    }
+
+    await db.update("sessions", { revoked_at: new Date().toISOString() }, "id = ?", [sessionId]);
+  }
+
+  /**
+   * Revoke every session of a user ("log out everywhere")
+   * @param userId - User ID
+   * @returns Number of revoked sessions
+   */
+  async revokeAllSessions(userId: number): Promise<number> {
+    return await db.update(
+      "sessions",
+      { revoked_at: new Date().toISOString() },
+      "user_id = ? AND revoked_at IS NULL",
+      [userId]
+    );
+  }
+
+  /**
+   * Revoke the session whose previous refresh token is presented again
+   * @param tokenHash - Hash of the presented refresh token
+   */
+  private async revokeReusedToken(tokenHash: string): Promise<void> {
+    const result = await db.query<Session>(
+      "SELECT * FROM sessions WHERE previous_refresh_token_hash = ? AND revoked_at IS NULL",
+      [tokenHash]
+    );
+
+    const session = result.rows[0];
+    if (session) {
+      await db.update("sessions", { revoked_at: new Date().toISOString() }, "id = ?", [session.id]);
+      logger.warn(`Replaced refresh token presented again, session ${session.id} of user ${session.user_id} revoked`);
+    }
+  }
+
+  /**
+   * Get a session by ID
+   * @param id - Session ID
+   * @returns Session or null if not found
+   */
+  private async getSessionById(id: number): Promise<Session | null> {
+    const result = await db.query<Session>(
+      "SELECT * FROM sessions WHERE id = ?",
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Check that a session is neither revoked nor expired
+   * @param session - Session
+   * @returns True if the session is usable
+   */
+  private isActive(session: Session): boolean {
+    return !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+  }
+
+  /**
+   * Compute the expiry date of a session refreshed at a given time
+   * @param from - Refresh time
+   * @returns Expiry date as an ISO string
+   */
+  private getExpiryDate(from: Date): string {
+    return new Date(from.getTime() + AUTH.REFRESH_TOKEN_EXPIRY * 1000).toISOString();
+  }
+}
+
+// Create and export a singleton instance
+const sessionService = new SessionService();
+export default sessionService;
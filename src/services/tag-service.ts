@@ -0,0 +1,170 @@
+/**
+ * Tag Service
+ *
+ * This service handles the game tag taxonomy:
+ * - Tag creation and assignment to games
+ * - Tag listings with game counts
+ */
+
+import db from "./database-service.ts";
+import { TAGS } from "../config/constants.ts";
+import { RowObject } from "./database-service.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
+
+/**
+ * Kind of tag (genre, theme or keyword)
+ */
+export type TagCategory = typeof TAGS.CATEGORIES[number];
+
+/**
+ * Tag interface
+ */
+export interface GameTag extends RowObject {
+  id: number;
+  name: string;
+  category: TagCategory | null;
+}
+
+/**
+ * Tag with the number of games carrying it
+ */
+export interface GameTagWithCount extends GameTag {
+  game_count: number;
+}
+
+/**
+ * Tag data used when assigning tags to a game
+ */
+export interface GameTagInput {
+  name: string;
+  category: TagCategory;
+}
+
+/**
+ * SQL condition restricting games (aliased g) to those carrying a tag, matched by name
+ */
+export const TAG_FILTER_SQL = `g.id IN (
+  SELECT gtr.game_id
+  FROM game_tag_relations gtr
+  JOIN game_tags t ON gtr.tag_id = t.id
+  WHERE LOWER(t.name) = LOWER(?)
+)`;
+
+/**
+ * Sort key of tag listings, most used first
+ */
+const TAG_CURSOR_KEYS: CursorKey[] = [
+  { column: "game_count", direction: "DESC" },
+  { column: "name", direction: "ASC" },
+  { column: "id", direction: "ASC" },
+];
+
+/**
+ * Tag service class
+ */
+export class TagService {
+  /**
+   * Get tags with the number of games carrying each one
+   * @param category - Only return tags of this category (optional)
+   * @param page - Requested page
+   * @returns Page of tags, most used first
+   * @throws BadRequestError if the cursor is malformed
+   */
+  async getTags(category: TagCategory | undefined, page: CursorPageRequest): Promise<CursorPage<GameTagWithCount>> {
+    const categoryFilter = category ? "WHERE t.category = ?" : "";
+    const filterParams = category ? [category] : [];
+
+    // Get tags with game counts
+    const result = await db.queryPage<GameTagWithCount>(
+      `SELECT
+        t.id,
+        t.name,
+        t.category,
+        COUNT(gtr.game_id) as game_count
+      FROM game_tags t
+      LEFT JOIN game_tag_relations gtr ON t.id = gtr.tag_id
+      ${categoryFilter}
+      GROUP BY t.id, t.name, t.category`,
+      filterParams,
+      TAG_CURSOR_KEYS,
+      page
+    );
+
+    const items = result.items.map(tag => ({
+      ...tag,
+      game_count: Number(tag.game_count),
+    }));
+
+    return { ...result, items };
+  }
+
+  /**
+   * Get the tags of a game
+   * @param gameId - Game ID
+   * @returns Tags sorted by category then name
+   */
+  async getGameTags(gameId: number): Promise<GameTag[]> {
+    const result = await db.query<GameTag>(
+      `SELECT t.id, t.name, t.category
+      FROM game_tags t
+      JOIN game_tag_relations gtr ON t.id = gtr.tag_id
+      WHERE gtr.game_id = ?
+      ORDER BY t.category ASC, t.name ASC`,
+      [gameId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Replace the tags of a game
+   * @param gameId - Game ID
+   * @param tags - Tags to assign; missing tags are created
+   */
+  async setGameTags(gameId: number, tags: GameTagInput[]): Promise<void> {
+    // Tag names are unique regardless of case, keep the first occurrence
+    const uniqueTags = new Map<string, GameTagInput>();
+    for (const tag of tags) {
+      const name = tag.name.trim();
+      if (name && !uniqueTags.has(name.toLowerCase())) {
+        uniqueTags.set(name.toLowerCase(), { ...tag, name });
+      }
+    }
+
+    await db.delete("game_tag_relations", "game_id = ?", [gameId]);
+
+    for (const tag of uniqueTags.values()) {
+      const tagId = await this.findOrCreateTag(tag);
+
+      await db.query(
+        "INSERT INTO game_tag_relations (game_id, tag_id) VALUES (?, ?)",
+        [gameId, tagId]
+      );
+    }
+  }
+
+  /**
+   * Find a tag by name, creating it if needed
+   * @param tag - Tag data
+   * @returns Tag ID
+   */
+  private async findOrCreateTag(tag: GameTagInput): Promise<number> {
+    const result = await db.query<{ id: number }>(
+      "SELECT id FROM game_tags WHERE LOWER(name) = LOWER(?)",
+      [tag.name]
+    );
+
+    if (result.rows[0]) {
+      return result.rows[0].id;
+    }
+
+    return await db.insert("game_tags", {
+      name: tag.name,
+      category: tag.category,
+    });
+  }
+}
+
+// Create and export a singleton instance
+const tagService = new TagService();
+export default tagService;
@@ -3,15 +3,25 @@
  * 
  * This service handles user-related operations such as:
  * - User registration and authentication
+ * - Access token renewal from refresh tokens
+ * - Email verification and password reset
+ * - Roles and account bans
  * - User profile management
  * - User data retrieval
  */
 
 import db from "./database-service.ts";
-import { hashPassword, verifyPassword, generateToken } from "../utils/auth.ts";
-import { ConflictError, NotFoundError, UnauthorizedError } from "../utils/errors.ts";
+import { hashPassword, verifyPassword, generateToken, hasRole, AuthUser } from "../utils/auth.ts";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from "../utils/errors.ts";
 import logger from "../utils/logger.ts";
+import { AUTH } from "../config/constants.ts";
 import { RowObject } from "./database-service.ts";
+import sessionService, { SessionClient } from "./session-service.ts";
+import userTokenService from "./user-token-service.ts";
+import mailService from "./mail-service.ts";
+import moderationService from "./moderation-service.ts";
+import { UserRole } from "../models/user.ts";
+import { CursorKey, CursorPage, CursorPageRequest } from "../utils/pagination.ts";
 
 /**
  * User interface
@@ -21,10 +31,19 @@ export interface User extends RowObject {
   username: string;
   email: string;
   password: string;
+  email_verified_at: string | null;
+  role: UserRole;
+  banned_at: string | null;
+  ban_reason: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Public profile of a user, shown to anyone
+ */
+export type PublicUser = Pick<User, "id" | "username" | "created_at">;
+
 /**
  * User creation data
  */
@@ -42,12 +61,20 @@ export interface UserUpdateData {
   password?: string;
 }
 
+/**
+ * Sort key of user listings, newest accounts first
+ */
+const USER_CURSOR_KEYS: CursorKey[] = [
+  { column: "sort_created_at", direction: "DESC", internal: true },
+  { column: "id", direction: "DESC" },
+];
+
 /**
  * User service class
  */
 export class UserService {
   /**
-   * Create a new user
+   * Create a new user and email them a verification link
    * @param userData - User data for creation
    * @returns Created user (without password)
    * @throws ConflictError if username or email already exists
@@ -83,21 +110,26 @@ export class UserService {
       throw new Error("Failed to retrieve created user");
     }
     
+    await this.sendVerificationEmail(user);
+    
     // Return user without password
     const { password, ...userWithoutPassword } = user;
     return userWithoutPassword;
   }
   
   /**
-   * Authenticate a user
+   * Authenticate a user and open a session
    * @param username - Username
    * @param password - Password
-   * @returns Authentication result with user data and token
+   * @param client - Device the user logs in from
+   * @returns Authentication result with user data, access token and refresh token
    * @throws UnauthorizedError if authentication fails
+   * @throws ForbiddenError if the account is banned
    */
-  async authenticate(username: string, password: string): Promise<{
+  async authenticate(username: string, password: string, client: SessionClient): Promise<{
     user: Omit<User, "password">;
     token: string;
+    refreshToken: string;
   }> {
     // Find user by username
     const user = await this.findByUsername(username);
@@ -113,20 +145,53 @@ export class UserService {
       throw new UnauthorizedError("Invalid username or password");
     }
     
-    // Generate JWT token
+    if (user.banned_at) {
+      logger.debug(`Authentication refused: User ${username} is banned`);
+      throw new ForbiddenError("This account has been banned");
+    }
+    
+    // Open a session and generate its access token
+    const { session, refreshToken } = await sessionService.createSession(user.id, client);
     const token = await generateToken({
       id: user.id.toString(),
       username: user.username,
-    });
+    }, session.id);
     
-    // Return user without password and token
+    // Return user without password and tokens
     const { password: _, ...userWithoutPassword } = user;
     return {
       user: userWithoutPassword,
       token,
+      refreshToken,
     };
   }
   
+  /**
+   * Issue a new access token from a refresh token
+   * The refresh token is rotated: the returned one replaces it
+   * @param refreshToken - Current refresh token
+   * @returns New access token and refresh token
+   * @throws UnauthorizedError if the refresh token is invalid or its session revoked
+   */
+  async refreshTokens(refreshToken: string): Promise<{
+    token: string;
+    refreshToken: string;
+  }> {
+    const { session, refreshToken: newRefreshToken } = await sessionService.rotateRefreshToken(refreshToken);
+    
+    const user = await this.findById(session.user_id);
+    if (!user || user.banned_at) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+    
+    const token = await generateToken({
+      id: user.id.toString(),
+      username: user.username,
+    }, session.id);
+    
+    return { token, refreshToken: newRefreshToken };
+  }
+  
   /**
    * Find a user by ID
    * @param id - User ID
@@ -197,10 +262,14 @@ export class UserService {
       updated_at: new Date().toISOString(),
     };
     
-    // Add email if provided
+    // Add email if provided; a new address has to be verified again
+    const emailChanged = Boolean(userData.email && userData.email !== existingUser.email);
     if (userData.email) {
       updateData.email = userData.email;
     }
+    if (emailChanged) {
+      updateData.email_verified_at = null;
+    }
     
     // Add hashed password if provided
     if (userData.password) {
@@ -216,11 +285,234 @@ export class UserService {
       throw new Error("Failed to retrieve updated user");
     }
     
+    if (emailChanged) {
+      await this.sendVerificationEmail(updatedUser);
+    }
+    
     // Return user without password
     const { password, ...userWithoutPassword } = updatedUser;
     return userWithoutPassword;
   }
   
+  /**
+   * Update the email or password of one's own account, after checking the current password
+   * A new password revokes every session of the user, logging out all devices
+   * @param id - User ID
+   * @param userData - User data to update
+   * @param currentPassword - Current password of the user
+   * @returns Updated user (without password)
+   * @throws NotFoundError if user not found
+   * @throws ForbiddenError if the current password is wrong
+   * @throws ConflictError if the email already exists
+   */
+  async updateOwnAccount(
+    id: number,
+    userData: UserUpdateData,
+    currentPassword: string
+  ): Promise<Omit<User, "password">> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    if (!await verifyPassword(currentPassword, user.password)) {
+      throw new ForbiddenError("Current password is incorrect");
+    }
+    
+    const updatedUser = await this.updateUser(id, userData);
+    
+    if (userData.password) {
+      await sessionService.revokeAllSessions(id);
+      logger.info(`Password changed for user ${id}`);
+    }
+    
+    return updatedUser;
+  }
+  
+  /**
+   * Send a new email verification link to a user
+   * @param id - User ID
+   * @throws NotFoundError if user not found
+   * @throws ConflictError if the email is already verified
+   */
+  async requestEmailVerification(id: number): Promise<void> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    if (user.email_verified_at) {
+      throw new ConflictError("Email already verified");
+    }
+    
+    await this.sendVerificationEmail(user);
+  }
+  
+  /**
+   * Mark a user's email as verified
+   * @param token - Email verification token
+   * @returns Verified user (without password)
+   * @throws BadRequestError if the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string): Promise<Omit<User, "password">> {
+    const userId = await userTokenService.consumeToken(token, "email_verification");
+    
+    await db.update(
+      "users",
+      {
+        email_verified_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+      "id = ?",
+      [userId]
+    );
+    
+    const user = await this.findById(userId);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+    
+    const { password: _, ...userWithoutPassword } = user;
+    return userWithoutPassword;
+  }
+  
+  /**
+   * Email a password reset link
+   * Unknown addresses are ignored silently, so the endpoint can't be used to discover accounts.
+   * The email is sent in the background and failures are logged, so neither delivery time
+   * nor delivery errors show in the response.
+   * @param email - Account email address
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.findByEmail(email);
+    if (!user) {
+      logger.debug(`Password reset requested for unknown email ${email}`);
+      return;
+    }
+    
+    const token = await userTokenService.createToken(
+      user.id,
+      "password_reset",
+      AUTH.PASSWORD_RESET_TOKEN_EXPIRY
+    );
+    
+    mailService.sendPasswordReset(user.email, user.username, token).catch((error) => {
+      logger.error(`Failed to send password reset email to user ${user.id}`, error);
+    });
+  }
+  
+  /**
+   * Choose a new password with a reset token
+   * Every session of the user is revoked, logging out all devices
+   * @param token - Password reset token
+   * @param newPassword - New password
+   * @throws BadRequestError if the token is invalid, expired or already used
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await userTokenService.consumeToken(token, "password_reset");
+    
+    await this.updateUser(userId, { password: newPassword });
+    await sessionService.revokeAllSessions(userId);
+    
+    logger.info(`Password reset for user ${userId}`);
+  }
+  
+  /**
+   * Ban a user: they can no longer log in, and all their sessions are revoked
+   * @param actor - Moderator or admin banning the user
+   * @param id - User ID
+   * @param reason - Reason shown to moderators
+   * @returns Banned user (without password)
+   * @throws NotFoundError if user not found
+   * @throws ForbiddenError if the target's role is not below the actor's
+   * @throws ConflictError if the user is already banned
+   */
+  async banUser(actor: AuthUser, id: number, reason: string): Promise<Omit<User, "password">> {
+    const user = await this.findModeratableUser(actor, id);
+    
+    if (user.banned_at) {
+      throw new ConflictError("User is already banned");
+    }
+    
+    await db.update(
+      "users",
+      {
+        banned_at: new Date().toISOString(),
+        ban_reason: reason,
+        updated_at: new Date().toISOString(),
+      },
+      "id = ?",
+      [id]
+    );
+    await sessionService.revokeAllSessions(id);
+    await moderationService.logAction(parseInt(actor.id), "ban", "user", id, reason);
+    
+    logger.info(`User ${id} banned by ${actor.username}: ${reason}`);
+    
+    return await this.findUserWithoutPassword(id);
+  }
+  
+  /**
+   * Lift a user's ban
+   * @param actor - Moderator or admin lifting the ban
+   * @param id - User ID
+   * @param reason - Why the ban is lifted (optional)
+   * @returns Unbanned user (without password)
+   * @throws NotFoundError if user not found
+   * @throws ForbiddenError if the target's role is not below the actor's
+   * @throws ConflictError if the user is not banned
+   */
+  async unbanUser(actor: AuthUser, id: number, reason: string | null = null): Promise<Omit<User, "password">> {
+    const user = await this.findModeratableUser(actor, id);
+    
+    if (!user.banned_at) {
+      throw new ConflictError("User is not banned");
+    }
+    
+    await db.update(
+      "users",
+      {
+        banned_at: null,
+        ban_reason: null,
+        updated_at: new Date().toISOString(),
+      },
+      "id = ?",
+      [id]
+    );
+    await moderationService.logAction(parseInt(actor.id), "unban", "user", id, reason);
+    
+    logger.info(`User ${id} unbanned by ${actor.username}`);
+    
+    return await this.findUserWithoutPassword(id);
+  }
+  
+  /**
+   * Change a user's role
+   * @param actor - Admin changing the role
+   * @param id - User ID
+   * @param role - New role
+   * @returns Updated user (without password)
+   * @throws NotFoundError if user not found
+   * @throws BadRequestError if admins try to change their own role
+   */
+  async setRole(actor: AuthUser, id: number, role: UserRole): Promise<Omit<User, "password">> {
+    // Prevents the last admin from locking everyone out of administration
+    if (parseInt(actor.id) === id) {
+      throw new BadRequestError("You cannot change your own role");
+    }
+    
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    await db.update("users", { role, updated_at: new Date().toISOString() }, "id = ?", [id]);
+    
+    logger.info(`User ${id} role changed from ${user.role} to ${role} by ${actor.username}`);
+    
+    return await this.findUserWithoutPassword(id);
+  }
+  
   /**
    * Delete a user
    * @param id - User ID
@@ -242,33 +534,81 @@ export class UserService {
   
   /**
    * Get all users
-   * @param limit - Maximum number of users to return
-   * @param offset - Number of users to skip
-   * @returns List of users (without passwords)
+   * @param page - Requested page
+   * @returns Page of users (without passwords), newest first
+   * @throws BadRequestError if the cursor is malformed
    */
-  async getAllUsers(limit = 100, offset = 0): Promise<{
-    users: Array<Omit<User, "password">>;
-    total: number;
-  }> {
-    // Get total count
-    const countResult = await db.query<{ count: number }>(
-      "SELECT COUNT(*) as count FROM users"
-    );
-    const total = countResult.rows[0]?.count || 0;
-    
-    // Get users with pagination
-    const result = await db.query<User>(
-      "SELECT * FROM users ORDER BY created_at DESC LIMIT ? OFFSET ?",
-      [limit, offset]
+  async getAllUsers(page: CursorPageRequest): Promise<CursorPage<Omit<User, "password">>> {
+    const result = await db.queryPage<User>(
+      "SELECT *, CAST(created_at AS TEXT) as sort_created_at FROM users",
+      [],
+      USER_CURSOR_KEYS,
+      page
     );
     
     // Remove passwords
-    const users = result.rows.map(user => {
+    const items = result.items.map(user => {
       const { password, ...userWithoutPassword } = user;
       return userWithoutPassword;
     });
     
-    return { users, total };
+    return { ...result, items };
+  }
+  
+  /**
+   * Issue an email verification token and email the link to a user
+   * Mail failures are logged: the account stays usable and the link can be requested again
+   * @param user - User whose email to verify
+   */
+  private async sendVerificationEmail(user: User): Promise<void> {
+    try {
+      const token = await userTokenService.createToken(
+        user.id,
+        "email_verification",
+        AUTH.EMAIL_VERIFICATION_TOKEN_EXPIRY
+      );
+      
+      await mailService.sendEmailVerification(user.email, user.username, token);
+    } catch (error) {
+      logger.error(`Failed to send verification email to user ${user.id}`, error);
+    }
+  }
+  
+  /**
+   * Get a user that an actor is allowed to moderate
+   * @param actor - Moderator or admin
+   * @param id - User ID
+   * @returns User
+   * @throws NotFoundError if user not found
+   * @throws ForbiddenError if the user is the actor or has an equal or higher role
+   */
+  private async findModeratableUser(actor: AuthUser, id: number): Promise<User> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    if (parseInt(actor.id) === id || hasRole(user.role, actor.role ?? "user")) {
+      throw new ForbiddenError("You can only moderate users with a lower role than yours");
+    }
+    
+    return user;
+  }
+  
+  /**
+   * Get a user without their password
+   * @param id - User ID
+   * @returns User (without password)
+   * @throws NotFoundError if user not found
+   */
+  private async findUserWithoutPassword(id: number): Promise<Omit<User, "password">> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    const { password: _, ...userWithoutPassword } = user;
+    return userWithoutPassword;
   }
 }
 
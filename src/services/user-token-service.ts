@@ -0,0 +1,111 @@
+/**
+ * User Token Service
+ *
+ * This service handles single-use, expiring tokens sent to users by email:
+ * - Email verification tokens
+ * - Password reset tokens
+ */
+
+import db from "./database-service.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { generateOpaqueToken, hashToken } from "../utils/tokens.ts";
+import { RowObject } from "./database-service.ts";
+
+/**
+ * What a token allows
+ */
+export type UserTokenPurpose = "email_verification" | "password_reset";
+
+/**
+ * User token interface
+ */
+export interface UserToken extends RowObject {
+  id: number;
+  user_id: number;
+  purpose: UserTokenPurpose;
+  token_hash: string;
+  created_at: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+/**
+ * User token service class
+ */
+export class UserTokenService {
+  /**
+   * Issue a token for a user
+   * Earlier unused tokens with the same purpose stop working
+   * @param userId - User ID
+   * @param purpose - What the token allows
+   * @param expiresIn - Token lifetime in seconds
+   * @returns Token to send to the user (only its hash is stored)
+   */
+  async createToken(userId: number, purpose: UserTokenPurpose, expiresIn: number): Promise<string> {
+    const token = generateOpaqueToken();
+    const now = new Date();
+
+    await this.invalidateTokens(userId, purpose);
+
+    await db.insert("user_tokens", {
+      user_id: userId,
+      purpose,
+      token_hash: await hashToken(token),
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + expiresIn * 1000).toISOString(),
+    });
+
+    return token;
+  }
+
+  /**
+   * Use a token, which can't be used again afterwards
+   * @param token - Token received from the user
+   * @param purpose - Expected purpose of the token
+   * @returns ID of the user the token was issued to
+   * @throws BadRequestError if the token is unknown, expired, already used or issued for another purpose
+   */
+  async consumeToken(token: string, purpose: UserTokenPurpose): Promise<number> {
+    const result = await db.query<UserToken>(
+      "SELECT * FROM user_tokens WHERE token_hash = ? AND purpose = ?",
+      [await hashToken(token), purpose]
+    );
+
+    const userToken = result.rows[0];
+    if (!userToken || userToken.used_at || new Date(userToken.expires_at).getTime() <= Date.now()) {
+      throw new BadRequestError("Invalid or expired token");
+    }
+
+    // The used_at condition makes concurrent uses of the same token fail
+    const updated = await db.update(
+      "user_tokens",
+      { used_at: new Date().toISOString() },
+      "id = ? AND used_at IS NULL",
+      [userToken.id]
+    );
+
+    if (updated === 0) {
+      throw new BadRequestError("Invalid or expired token");
+    }
+
+    return userToken.user_id;
+  }
+
+  /**
+   * Invalidate the unused tokens of a user for a purpose
+   * @param userId - User ID
+   * @param purpose - Purpose of the tokens to invalidate
+   */
+  async invalidateTokens(userId: number, purpose: UserTokenPurpose): Promise<void> {
+    await db.update(
+      "user_tokens",
+      { used_at: new Date().toISOString() },
+      "user_id = ? AND purpose = ? AND used_at IS NULL",
+      [userId, purpose]
+    );
+  }
+}
+
+// Create and export a singleton instance
+const userTokenService = new UserTokenService();
+export default userTokenService;
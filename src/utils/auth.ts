@@ -3,21 +3,26 @@
  * 
  * This file provides utilities for user authentication, including:
  * - Password hashing and verification
- * - JWT token generation and verification
+ * - JWT access token generation and verification
+ * - Session checks, so revoked sessions lose access immediately
  * - Authentication middleware
+ * - Role-based access control
  */
 
 import * as bcrypt from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
 import { create, verify, decode } from "https://deno.land/x/djwt@v2.9.1/mod.ts";
 import { Context, Next } from "https://deno.land/x/oak@v12.5.0/mod.ts";
-import { AUTH } from "../config/constants.ts";
-import { UnauthorizedError } from "./errors.ts";
+import { AUTH, ROLES } from "../config/constants.ts";
+import { ForbiddenError, UnauthorizedError } from "./errors.ts";
 import logger from "./logger.ts";
+import sessionService from "../services/session-service.ts";
+import { UserRole } from "../models/user.ts";
 
 // Define types for JWT payload
 export interface JwtPayload {
   sub: string;
   username: string;
+  sid: number;
   exp: number;
   iat: number;
 }
@@ -26,8 +31,28 @@ export interface JwtPayload {
 export interface AuthUser {
   id: string;
   username: string;
+  sessionId?: number;
+  role?: UserRole;
 }
 
+/**
+ * Actions restricted to some roles; users can always manage their own resources
+ */
+export type Permission =
+  | "reviews:moderate"
+  | "users:ban"
+  | "users:manage_roles"
+  | "jobs:manage";
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  moderator: ["reviews:moderate", "users:ban"],
+  admin: ["reviews:moderate", "users:ban", "users:manage_roles", "jobs:manage"],
+};
+
 // Extend Context type to include user
 type AuthContext = Context & {
   state: {
@@ -60,11 +85,12 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a short-lived JWT access token for a user
  * @param user - User object with id and username
+ * @param sessionId - Session the token belongs to
  * @returns JWT token string
  */
-export async function generateToken(user: AuthUser): Promise<string> {
+export async function generateToken(user: AuthUser, sessionId: number): Promise<string> {
   const key = await crypto.subtle.importKey(
     "raw",
     new TextEncoder().encode(AUTH.JWT_SECRET),
@@ -80,7 +106,8 @@ export async function generateToken(user: AuthUser): Promise<string> {
     {
       sub: user.id,
       username: user.username,
-      exp: now + AUTH.TOKEN_EXPIRY,
+      sid: sessionId,
+      exp: now + AUTH.ACCESS_TOKEN_EXPIRY,
       iat: now,
     },
     key
@@ -111,12 +138,58 @@ export async function verifyToken(token: string): Promise<JwtPayload> {
   }
 }
 
+/**
+ * Verify an access token and check that its session is still active
+ * @param token - JWT token string
+ * @returns Authenticated user
+ * @throws UnauthorizedError if the token is invalid or its session revoked or expired
+ */
+export async function authenticateToken(token: string): Promise<AuthUser> {
+  const payload = await verifyToken(token);
+
+  // Tokens issued before sessions existed carry no session and are rejected
+  const role = payload.sid
+    ? await sessionService.getActiveSessionRole(payload.sid, parseInt(payload.sub))
+    : null;
+
+  if (!role) {
+    throw new UnauthorizedError("Session expired or revoked");
+  }
+
+  return {
+    id: payload.sub,
+    username: payload.username,
+    sessionId: payload.sid,
+    role,
+  };
+}
+
+/**
+ * Check whether a user's role grants a permission
+ * @param user - Authenticated user
+ * @param permission - Permission to check
+ * @returns True if the permission is granted
+ */
+export function hasPermission(user: AuthUser | undefined, permission: Permission): boolean {
+  return !!user?.role && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+/**
+ * Check whether a role is at least as privileged as another
+ * @param role - Role to check
+ * @param minimumRole - Required role
+ * @returns True if role ranks at or above minimumRole
+ */
+export function hasRole(role: UserRole | undefined, minimumRole: UserRole): boolean {
+  return !!role && ROLES.LIST.indexOf(role) >= ROLES.LIST.indexOf(minimumRole);
+}
+
 /**
  * Extract token from request
  * @param ctx - Oak context
  * @returns Token string or null if not found
  */
-export function extractToken(ctx: Context): string | null {
+export async function extractToken(ctx: Context): Promise<string | null> {
   // Check authorization header
   const authHeader = ctx.request.headers.get("Authorization");
   if (authHeader && authHeader.startsWith("Bearer ")) {
@@ -125,7 +198,7 @@ export function extractToken(ctx: Context): string | null {
   
   // Check cookies
   const cookies = ctx.cookies;
-  const tokenCookie = cookies.get(AUTH.COOKIE_NAME);
+  const tokenCookie = await cookies.get(AUTH.COOKIE_NAME);
   if (tokenCookie) {
     return tokenCookie;
   }
@@ -135,26 +208,19 @@ export function extractToken(ctx: Context): string | null {
 
 /**
  * Authentication middleware
- * Verifies JWT token and sets user in context state
+ * Verifies JWT token and its session, and sets user in context state
  * @param ctx - Oak context
  * @param next - Next middleware function
  */
 export async function authMiddleware(ctx: AuthContext, next: Next): Promise<void> {
   try {
-    const token = extractToken(ctx);
+    const token = await extractToken(ctx);
     
     if (!token) {
       throw new UnauthorizedError("Authentication required");
     }
     
-    const payload = await verifyToken(token);
-    
-    ctx.state.user = {
-      id: payload.sub,
-      username: payload.username,
-    };
-    
-    await next();
+    ctx.state.user = await authenticateToken(token);
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       throw error;
@@ -162,6 +228,9 @@ export async function authMiddleware(ctx: AuthContext, next: Next): Promise<void
     
     throw new UnauthorizedError("Authentication failed");
   }
+  
+  // Outside the try block so errors from the route keep their own status
+  await next();
 }
 
 /**
@@ -172,21 +241,59 @@ export async function authMiddleware(ctx: AuthContext, next: Next): Promise<void
  */
 export async function optionalAuthMiddleware(ctx: AuthContext, next: Next): Promise<void> {
   try {
-    const token = extractToken(ctx);
+    const token = await extractToken(ctx);
     
     if (token) {
-      const payload = await verifyToken(token);
-      
-      ctx.state.user = {
-        id: payload.sub,
-        username: payload.username,
-      };
+      ctx.state.user = await authenticateToken(token);
     }
-    
-    await next();
   } catch (error) {
     // Continue without authentication
     logger.debug("Optional authentication failed", { error: error.message });
-    await next();
   }
-} 
\ No newline at end of file
+  
+  await next();
+}
+
+/**
+ * Role-checking middleware factory
+ * Must run after authMiddleware; roles are ordered, so requireRole("moderator") also admits admins
+ * @param minimumRole - Least privileged role allowed
+ * @returns Middleware rejecting users below the role
+ */
+export function requireRole(minimumRole: UserRole) {
+  return async (ctx: AuthContext, next: Next): Promise<void> => {
+    const user = ctx.state.user;
+
+    if (!user) {
+      throw new UnauthorizedError("Authentication required");
+    }
+
+    if (!hasRole(user.role, minimumRole)) {
+      throw new ForbiddenError(`This action requires the ${minimumRole} role`);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Permission-checking middleware factory
+ * Must run after authMiddleware; the permissions of each role are listed in ROLE_PERMISSIONS
+ * @param permission - Permission required
+ * @returns Middleware rejecting users whose role doesn't grant the permission
+ */
+export function requirePermission(permission: Permission) {
+  return async (ctx: AuthContext, next: Next): Promise<void> => {
+    const user = ctx.state.user;
+
+    if (!user) {
+      throw new UnauthorizedError("Authentication required");
+    }
+
+    if (!hasPermission(user, permission)) {
+      throw new ForbiddenError(`This action requires the ${permission} permission`);
+    }
+
+    await next();
+  };
+}
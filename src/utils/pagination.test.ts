@@ -0,0 +1,67 @@
+/**
+ * Pagination Utilities Tests
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/assert/mod.ts";
+import {
+  CursorKey,
+  decodeCursor,
+  decodePageCursor,
+  encodeCursor,
+  encodePageCursor,
+  getCursorPageRequest,
+} from "./pagination.ts";
+import { BadRequestError } from "./errors.ts";
+import { PAGINATION } from "../config/constants.ts";
+
+const KEYS: CursorKey[] = [
+  { column: "sort_created_at", direction: "DESC", internal: true },
+  { column: "title", direction: "ASC" },
+  { column: "id", direction: "ASC" },
+];
+
+Deno.test("encodeCursor and decodeCursor round-trip values in any script", () => {
+  const values = { title: "ゼルダの伝説 ~ Pokémon? <>", score: 7.25, id: 42 };
+  const cursor = encodeCursor(values);
+
+  assertEquals(/^[A-Za-z0-9_-]+$/.test(cursor), true);
+  assertEquals(decodeCursor(cursor, ["title", "score", "id"]), values);
+});
+
+Deno.test("decodeCursor rejects malformed cursors and missing keys", () => {
+  assertThrows(() => decodeCursor("not a cursor!", ["id"]), BadRequestError);
+  assertThrows(() => decodeCursor(encodeCursor({ title: "Celeste" }), ["title", "id"]), BadRequestError);
+});
+
+Deno.test("encodePageCursor and decodePageCursor round-trip a position in sort key order", () => {
+  const row = { sort_created_at: "2024-05-01 10:00:00", title: "Hades", id: 12n, content: "not in the key" };
+
+  assertEquals(decodePageCursor(encodePageCursor(row, KEYS, "next"), KEYS), {
+    values: ["2024-05-01 10:00:00", "Hades", 12],
+    backward: false,
+  });
+  assertEquals(decodePageCursor(encodePageCursor(row, KEYS, "prev"), KEYS).backward, true);
+});
+
+Deno.test("decodePageCursor rejects cursors of another list or without a direction", () => {
+  const otherList = encodePageCursor({ id: 1 }, [{ column: "id", direction: "DESC" }], "next");
+
+  assertThrows(() => decodePageCursor(otherList, KEYS), BadRequestError);
+  assertThrows(() => decodePageCursor(encodeCursor({ sort_created_at: "", title: "", id: 1 }), KEYS), BadRequestError);
+});
+
+Deno.test("getCursorPageRequest reads the page and clamps its size", () => {
+  assertEquals(getCursorPageRequest(new URLSearchParams()), {
+    limit: PAGINATION.DEFAULT_LIMIT,
+    cursor: undefined,
+    withTotal: false,
+  });
+  assertEquals(getCursorPageRequest(new URLSearchParams("limit=5&cursor=abc&total=true")), {
+    limit: 5,
+    cursor: "abc",
+    withTotal: true,
+  });
+  assertEquals(getCursorPageRequest(new URLSearchParams("limit=100000")).limit, PAGINATION.MAX_LIMIT);
+  assertEquals(getCursorPageRequest(new URLSearchParams("limit=-3")).limit, 1);
+  assertEquals(getCursorPageRequest(new URLSearchParams("limit=abc"), 10).limit, 10);
+});
@@ -0,0 +1,162 @@
+/**
+ * Pagination Utilities
+ *
+ * This file provides helpers for opaque keyset cursors.
+ * A cursor encodes the sort key of the last item of a page so the next page
+ * can resume after it, even when rows are inserted while paging.
+ * Lists paged with db.queryPage() also return a cursor to the previous page,
+ * encoding the sort key of the first item.
+ */
+
+import { BadRequestError } from "./errors.ts";
+import { PAGINATION } from "../config/constants.ts";
+
+/**
+ * Values identifying a position in an ordered list
+ */
+export type CursorValues = Record<string, string | number>;
+
+/**
+ * Encode cursor values into an opaque, URL-safe string
+ * Values are encoded as UTF-8 first, as btoa() only accepts Latin-1 characters (titles can be in any script)
+ * @param values - Sort key values of the last item returned
+ * @returns Opaque cursor string
+ */
+export function encodeCursor(values: CursorValues): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(values));
+
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode an opaque cursor string
+ * @param cursor - Cursor string received from the client
+ * @param keys - Keys the cursor must contain
+ * @returns Decoded cursor values
+ * @throws BadRequestError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string, keys: string[]): CursorValues {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+    const values = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+
+    const isValid = typeof values === "object" && values !== null &&
+      keys.every(key => typeof values[key] === "string" || typeof values[key] === "number");
+
+    if (!isValid) {
+      throw new Error("Missing cursor keys");
+    }
+
+    return values as CursorValues;
+  } catch {
+    throw new BadRequestError("Invalid pagination cursor");
+  }
+}
+
+/**
+ * Column of the sort key of a paged list
+ * The columns of a sort key must identify rows uniquely (end with an ID) and never be NULL
+ */
+export interface CursorKey {
+  /** Column of the paged rows */
+  column: string;
+  direction: "ASC" | "DESC";
+  /** Column selected only to sort by, removed from the returned rows */
+  internal?: boolean;
+}
+
+/**
+ * Page requested by a client
+ */
+export interface CursorPageRequest {
+  limit: number;
+  /** Cursor returned with a previous page (optional) */
+  cursor?: string;
+  /** Whether to count the items of the whole list */
+  withTotal: boolean;
+}
+
+/**
+ * Page of a list paged with keyset cursors
+ */
+export interface CursorPage<T> {
+  items: T[];
+  /** Cursor of the following page, null on the last page */
+  next: string | null;
+  /** Cursor of the preceding page, null on the first page */
+  prev: string | null;
+  /** Number of items in the whole list, when requested */
+  total?: number;
+}
+
+/**
+ * Position in a list decoded from a cursor
+ */
+export interface CursorPosition {
+  /** Sort key values of the item to start from, in sort key order */
+  values: Array<string | number>;
+  /** Whether to read the items before that item rather than after it */
+  backward: boolean;
+}
+
+/**
+ * Read the requested page from the query string (?limit=, ?cursor=, ?total=true)
+ * @param searchParams - Query string of the request
+ * @param defaultLimit - Page size when none is requested
+ * @returns Requested page
+ */
+export function getCursorPageRequest(
+  searchParams: URLSearchParams,
+  defaultLimit: number = PAGINATION.DEFAULT_LIMIT
+): CursorPageRequest {
+  const limit = parseInt(searchParams.get("limit") || String(defaultLimit)) || defaultLimit;
+
+  return {
+    limit: Math.min(Math.max(limit, 1), PAGINATION.MAX_LIMIT),
+    cursor: searchParams.get("cursor") || undefined,
+    withTotal: searchParams.get("total") === "true",
+  };
+}
+
+/**
+ * Decode a cursor of a list paged with db.queryPage()
+ * @param cursor - Cursor string received from the client
+ * @param keys - Sort key of the list
+ * @returns Position to start from
+ * @throws BadRequestError if the cursor is malformed or belongs to another list
+ */
+export function decodePageCursor(cursor: string, keys: CursorKey[]): CursorPosition {
+  const values = decodeCursor(cursor, [...keys.map(key => key.column), "dir"]);
+
+  if (values.dir !== "next" && values.dir !== "prev") {
+    throw new BadRequestError("Invalid pagination cursor");
+  }
+
+  return {
+    values: keys.map(key => values[key.column]),
+    backward: values.dir === "prev",
+  };
+}
+
+/**
+ * Encode the cursor of a list paged with db.queryPage()
+ * @param row - First item of the page (to go backward) or last item (to go forward)
+ * @param keys - Sort key of the list
+ * @param dir - Direction to read the list from the item
+ * @returns Opaque cursor string
+ */
+export function encodePageCursor(row: Record<string, unknown>, keys: CursorKey[], dir: "next" | "prev"): string {
+  const values: CursorValues = { dir };
+
+  for (const key of keys) {
+    const value = row[key.column];
+    // PostgreSQL returns COUNT results as bigints
+    values[key.column] = typeof value === "number" ? value : typeof value === "bigint" ? Number(value) : String(value);
+  }
+
+  return encodeCursor(values);
+}
@@ -0,0 +1,45 @@
+/**
+ * Rating Scale Utilities Tests
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/assert/mod.ts";
+import { formatRating, getRatingScale, toInternalRating } from "./ratings.ts";
+import { BadRequestError } from "./errors.ts";
+import { RATINGS } from "../config/constants.ts";
+
+Deno.test("getRatingScale reads ?scale= and falls back to the default scale", () => {
+  assertEquals(getRatingScale(new URLSearchParams()), RATINGS.DEFAULT_SCALE);
+  assertEquals(getRatingScale(new URLSearchParams("scale=5")), 5);
+  assertEquals(getRatingScale(new URLSearchParams("scale=10")), 10);
+  assertThrows(() => getRatingScale(new URLSearchParams("scale=100")), BadRequestError);
+});
+
+Deno.test("toInternalRating converts submitted ratings to the 10-point scale", () => {
+  assertEquals(toInternalRating(3.5, 5), 7);
+  assertEquals(toInternalRating(0.5, 5), 1);
+  assertEquals(toInternalRating(5, 5), 10);
+  assertEquals(toInternalRating(7.5, 10), 7.5);
+  assertEquals(toInternalRating(0.5, 10), 0.5);
+});
+
+Deno.test("toInternalRating rejects ratings out of range or between steps", () => {
+  assertThrows(() => toInternalRating(0, 5), BadRequestError);
+  assertThrows(() => toInternalRating(5.5, 5), BadRequestError);
+  assertThrows(() => toInternalRating(11, 10), BadRequestError);
+  assertThrows(() => toInternalRating(3.25, 5), BadRequestError);
+});
+
+Deno.test("formatRating presents internal ratings on a scale, to two decimals", () => {
+  assertEquals(formatRating(7, 5), 3.5);
+  assertEquals(formatRating(7, 10), 7);
+  assertEquals(formatRating("8.0", 5), 4);
+  assertEquals(formatRating(7.37, 5), 3.69);
+});
+
+Deno.test("formatRating reverses toInternalRating", () => {
+  for (const scale of RATINGS.SCALES) {
+    for (let rating = RATINGS.STEP; rating <= scale; rating += RATINGS.STEP) {
+      assertEquals(formatRating(toInternalRating(rating, scale), scale), rating);
+    }
+  }
+});
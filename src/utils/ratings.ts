@@ -0,0 +1,63 @@
+/**
+ * Rating Scale Utilities
+ *
+ * Ratings are stored on a single internal scale, from 0.5 to 10 in half steps.
+ * Clients submit and read them on the scale of their choice (?scale=5 for
+ * stars with half stars, ?scale=10 for points), converted by these helpers.
+ */
+
+import { RATINGS } from "../config/constants.ts";
+import { BadRequestError } from "./errors.ts";
+
+/**
+ * Scale a rating is submitted or presented in
+ */
+export type RatingScale = typeof RATINGS.SCALES[number];
+
+/**
+ * Get the rating scale requested in the query string
+ * @param searchParams - Query string of the request
+ * @returns Requested scale, or the default scale
+ * @throws BadRequestError if the scale is not supported
+ */
+export function getRatingScale(searchParams: URLSearchParams): RatingScale {
+  const value = searchParams.get("scale");
+
+  if (!value) {
+    return RATINGS.DEFAULT_SCALE;
+  }
+
+  const scale = RATINGS.SCALES.find(scale => String(scale) === value);
+  if (!scale) {
+    throw new BadRequestError(`Scale must be one of: ${RATINGS.SCALES.join(", ")}`);
+  }
+
+  return scale;
+}
+
+/**
+ * Convert a submitted rating to the internal scale
+ * @param rating - Rating on the submission scale
+ * @param scale - Submission scale
+ * @returns Rating on the internal scale
+ * @throws BadRequestError if the rating is out of range or not a multiple of the step
+ */
+export function toInternalRating(rating: number, scale: RatingScale): number {
+  if (rating < RATINGS.STEP || rating > scale || !Number.isInteger(rating / RATINGS.STEP)) {
+    throw new BadRequestError(
+      `Rating must be between ${RATINGS.STEP} and ${scale}, in steps of ${RATINGS.STEP}`
+    );
+  }
+
+  return rating * (RATINGS.MAX_RATING / scale);
+}
+
+/**
+ * Present an internal rating (or average rating) on a scale
+ * @param rating - Rating on the internal scale (PostgreSQL returns NUMERIC values as strings)
+ * @param scale - Presentation scale
+ * @returns Rating on the presentation scale, to two decimals
+ */
+export function formatRating(rating: number | string, scale: RatingScale): number {
+  return Math.round(Number(rating) / (RATINGS.MAX_RATING / scale) * 100) / 100;
+}
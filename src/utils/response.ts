@@ -22,6 +22,10 @@ export interface ApiResponse<T = unknown> {
     page?: number;
     limit?: number;
     total?: number;
+    /** Cursor of the following page of a list (?cursor=), null on the last page */
+    next?: string | null;
+    /** Cursor of the preceding page of a list (?cursor=), null on the first page */
+    prev?: string | null;
     [key: string]: unknown;
   };
 }
@@ -220,4 +224,30 @@ export function sendPaginated<T>(
   };
   
   sendSuccess(ctx, data, 200, meta);
-} 
\ No newline at end of file
+} 
+
+/**
+ * Send a page of a list paged with keyset cursors
+ * @param ctx - Oak context
+ * @param data - Response data
+ * @param page - Cursors of the neighbouring pages, and the number of items when requested
+ * @param limit - Page size
+ * @param additionalMeta - Additional metadata
+ */
+export function sendCursorPaginated<T>(
+  ctx: Context,
+  data: T,
+  page: { next: string | null; prev: string | null; total?: number },
+  limit: number,
+  additionalMeta?: Record<string, unknown>
+): void {
+  const meta = {
+    limit,
+    next: page.next,
+    prev: page.prev,
+    ...(page.total !== undefined ? { total: page.total } : {}),
+    ...additionalMeta,
+  };
+  
+  sendSuccess(ctx, data, 200, meta);
+}
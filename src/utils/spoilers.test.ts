@@ -0,0 +1,30 @@
+/**
+ * Spoiler Utilities Tests
+ */
+
+import { assertEquals } from "https://deno.land/std@0.190.0/assert/mod.ts";
+import { isSpoilerRevealRequested, redactSpoilers } from "./spoilers.ts";
+import { REVIEWS } from "../config/constants.ts";
+
+Deno.test("redactSpoilers replaces the whole content of flagged reviews", () => {
+  assertEquals(redactSpoilers("The ending is great", true), { content: REVIEWS.REDACTED_REVIEW, redacted: true });
+});
+
+Deno.test("redactSpoilers replaces each inline spoiler segment", () => {
+  const content = "Great game. [spoiler]The king\ndies.[/spoiler] Also [SPOILER]a twist[/Spoiler]!";
+
+  assertEquals(redactSpoilers(content, false), {
+    content: `Great game. ${REVIEWS.REDACTED_SPOILER} Also ${REVIEWS.REDACTED_SPOILER}!`,
+    redacted: true,
+  });
+});
+
+Deno.test("redactSpoilers leaves content without spoilers untouched", () => {
+  assertEquals(redactSpoilers("No [spoiler] closing tag", false), { content: "No [spoiler] closing tag", redacted: false });
+});
+
+Deno.test("isSpoilerRevealRequested only accepts ?reveal_spoilers=true", () => {
+  assertEquals(isSpoilerRevealRequested(new URLSearchParams("reveal_spoilers=true")), true);
+  assertEquals(isSpoilerRevealRequested(new URLSearchParams("reveal_spoilers=1")), false);
+  assertEquals(isSpoilerRevealRequested(new URLSearchParams()), false);
+});
@@ -0,0 +1,44 @@
+/**
+ * Spoiler Utilities
+ *
+ * This file provides helpers for spoilers in reviews. Reviewers either flag a whole
+ * review as containing spoilers, or wrap inline segments in [spoiler]...[/spoiler].
+ * Review content is redacted unless the reader asks for it with ?reveal_spoilers=true.
+ */
+
+import { REVIEWS } from "../config/constants.ts";
+
+/**
+ * Inline spoiler segment markup
+ */
+const SPOILER_PATTERN = /\[spoiler\][\s\S]*?\[\/spoiler\]/gi;
+
+/**
+ * Check whether a request asks for spoilers to be revealed
+ * @param searchParams - Query string of the request
+ * @returns True for ?reveal_spoilers=true
+ */
+export function isSpoilerRevealRequested(searchParams: URLSearchParams): boolean {
+  return searchParams.get("reveal_spoilers") === "true";
+}
+
+/**
+ * Redact the spoilers of a review
+ * - Flagged reviews have their whole content replaced
+ * - Otherwise, each inline spoiler segment is replaced
+ * @param content - Review content
+ * @param containsSpoilers - Whether the reviewer flagged the review as containing spoilers
+ * @returns Content safe to show, and whether anything was redacted
+ */
+export function redactSpoilers(content: string, containsSpoilers: boolean): {
+  content: string;
+  redacted: boolean;
+} {
+  if (containsSpoilers) {
+    return { content: REVIEWS.REDACTED_REVIEW, redacted: true };
+  }
+
+  const redactedContent = content.replace(SPOILER_PATTERN, REVIEWS.REDACTED_SPOILER);
+
+  return { content: redactedContent, redacted: redactedContent !== content };
+}
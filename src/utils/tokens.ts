@@ -0,0 +1,28 @@
+/**
+ * Opaque Token Utilities
+ *
+ * This file provides helpers for random, single-purpose tokens
+ * (refresh tokens, email verification and password reset links).
+ * Only the hash of a token is stored, so a database leak does not expose usable tokens.
+ */
+
+import { encodeBase64Url } from "https://deno.land/std@0.207.0/encoding/base64url.ts";
+import { encodeHex } from "https://deno.land/std@0.207.0/encoding/hex.ts";
+
+/**
+ * Generate a random opaque token
+ * @returns URL-safe token carrying 256 bits of randomness
+ */
+export function generateOpaqueToken(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Hash a token for storage and lookup
+ * @param token - Opaque token
+ * @returns SHA-256 hex digest
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return encodeHex(digest);
+}
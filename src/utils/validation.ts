@@ -8,7 +8,7 @@
 import { z } from "https://deno.land/x/zod@v3.21.4/mod.ts";
 import { Context, Next } from "https://deno.land/x/oak@v12.5.0/mod.ts";
 import { BadRequestError } from "./errors.ts";
-import { AUTH, RATINGS } from "../config/constants.ts";
+import { AUTH, BROWSE, DIARY, LIBRARY, LISTS, MODERATION, RATINGS, REVIEWS, ROLES } from "../config/constants.ts";
 
 // Define the extended Context type with params
 type RouterContext = Context & {
@@ -40,18 +40,81 @@ export const userLoginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+/**
+ * Email verification schema
+ */
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+/**
+ * Forgotten password schema
+ */
+export const passwordForgotSchema = z.object({
+  email: z.string()
+    .email("Invalid email address"),
+});
+
+/**
+ * Password reset schema
+ */
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: z.string()
+    .min(AUTH.MIN_PASSWORD_LENGTH, `Password must be at least ${AUTH.MIN_PASSWORD_LENGTH} characters`)
+    .max(100, "Password cannot exceed 100 characters"),
+});
+
+/**
+ * Account update schema; changing the email or the password requires the current password
+ */
+export const userUpdateSchema = z.object({
+  email: z.string()
+    .email("Invalid email address")
+    .optional(),
+  password: z.string()
+    .min(AUTH.MIN_PASSWORD_LENGTH, `Password must be at least ${AUTH.MIN_PASSWORD_LENGTH} characters`)
+    .max(100, "Password cannot exceed 100 characters")
+    .optional(),
+  currentPassword: z.string().min(1, "Current password is required"),
+}).refine(data => data.email !== undefined || data.password !== undefined, {
+  message: "At least one field must be provided for update"
+});
+
+/**
+ * User ban schema
+ */
+export const userBanSchema = z.object({
+  reason: z.string()
+    .min(1, "Ban reason is required")
+    .max(500, "Ban reason cannot exceed 500 characters"),
+});
+
+/**
+ * User role update schema
+ */
+export const userRoleSchema = z.object({
+  role: z.enum(ROLES.LIST),
+});
+
+/**
+ * Submitted rating, checked against the requested scale (?scale=) when converted to the internal scale
+ */
+const ratingField = z.number()
+  .multipleOf(RATINGS.STEP, `Rating must be a multiple of ${RATINGS.STEP}`)
+  .min(RATINGS.MIN_RATING, `Rating must be at least ${RATINGS.MIN_RATING}`)
+  .max(RATINGS.MAX_RATING, `Rating cannot exceed ${RATINGS.MAX_RATING}`);
+
 /**
  * Review creation schema
  */
 export const reviewCreationSchema = z.object({
   gameId: z.string().min(1, "Game ID is required"),
-  rating: z.number()
-    .int("Rating must be a whole number")
-    .min(RATINGS.MIN_RATING, `Rating must be at least ${RATINGS.MIN_RATING}`)
-    .max(RATINGS.MAX_RATING, `Rating cannot exceed ${RATINGS.MAX_RATING}`),
+  rating: ratingField,
   content: z.string()
     .min(1, "Review content is required")
     .max(2000, "Review content cannot exceed 2000 characters"),
+  containsSpoilers: z.boolean().optional(),
   gameTitle: z.string().optional(),
   gameCoverUrl: z.string().optional(),
 });
@@ -60,19 +123,222 @@ export const reviewCreationSchema = z.object({
  * Review update schema
  */
 export const reviewUpdateSchema = z.object({
-  rating: z.number()
-    .int("Rating must be a whole number")
-    .min(RATINGS.MIN_RATING, `Rating must be at least ${RATINGS.MIN_RATING}`)
-    .max(RATINGS.MAX_RATING, `Rating cannot exceed ${RATINGS.MAX_RATING}`)
-    .optional(),
+  rating: ratingField.optional(),
   content: z.string()
     .min(1, "Review content is required")
     .max(2000, "Review content cannot exceed 2000 characters")
     .optional(),
+  containsSpoilers: z.boolean().optional(),
 }).refine((data: Record<string, unknown>) => Object.keys(data).length > 0, {
   message: "At least one field must be provided for update"
 });
 
+/**
+ * Review comment schema
+ */
+export const reviewCommentSchema = z.object({
+  content: z.string()
+    .min(1, "Comment content is required")
+    .max(REVIEWS.MAX_COMMENT_LENGTH, `Comment content cannot exceed ${REVIEWS.MAX_COMMENT_LENGTH} characters`),
+  parentId: z.number().int().positive().optional(),
+});
+
+/**
+ * Review report schema
+ */
+export const reviewReportSchema = z.object({
+  reason: z.string()
+    .min(1, "Report reason is required")
+    .max(MODERATION.MAX_REASON_LENGTH, `Report reason cannot exceed ${MODERATION.MAX_REASON_LENGTH} characters`),
+});
+
+/**
+ * Review moderation decision schema
+ */
+export const reviewModerationSchema = z.object({
+  action: z.enum(MODERATION.REVIEW_ACTIONS),
+  reason: z.string()
+    .min(1, "Moderation reason cannot be empty")
+    .max(MODERATION.MAX_REASON_LENGTH, `Moderation reason cannot exceed ${MODERATION.MAX_REASON_LENGTH} characters`)
+    .optional(),
+}).refine((data: { action: string; reason?: string }) => data.action === "approve" || data.reason !== undefined, {
+  message: "A reason is required to hide or delete a review"
+});
+
+/**
+ * Library entry creation schema
+ */
+export const libraryEntrySchema = z.object({
+  gameId: z.number().int("Game ID must be a whole number").positive("Game ID is required"),
+  status: z.enum(LIBRARY.STATUSES),
+});
+
+/**
+ * Library entry update schema
+ */
+export const libraryEntryUpdateSchema = z.object({
+  status: z.enum(LIBRARY.STATUSES).optional(),
+  rating: ratingField.optional(),
+}).refine((data: Record<string, unknown>) => Object.keys(data).length > 0, {
+  message: "At least one field must be provided for update"
+});
+
+/**
+ * Fields shared by diary entry creation and update
+ */
+const diaryEntryFields = {
+  kind: z.enum(DIARY.ENTRY_KINDS),
+  playedOn: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Play date must be formatted as YYYY-MM-DD")
+    .refine((date: string) => !isNaN(Date.parse(date)), "Play date is not a valid date"),
+  platform: z.string()
+    .max(DIARY.MAX_PLATFORM_LENGTH, `Platform cannot exceed ${DIARY.MAX_PLATFORM_LENGTH} characters`)
+    .nullable()
+    .optional(),
+  hoursPlayed: z.number()
+    .min(0, "Hours played cannot be negative")
+    .max(DIARY.MAX_HOURS_PLAYED, `Hours played cannot exceed ${DIARY.MAX_HOURS_PLAYED}`)
+    .nullable()
+    .optional(),
+  rating: ratingField.nullable().optional(),
+  note: z.string()
+    .max(DIARY.MAX_NOTE_LENGTH, `Note cannot exceed ${DIARY.MAX_NOTE_LENGTH} characters`)
+    .nullable()
+    .optional(),
+  replay: z.boolean().nullable().optional(),
+};
+
+/**
+ * Diary entry creation schema
+ */
+export const diaryEntrySchema = z.object({
+  gameId: z.number().int("Game ID must be a whole number").positive("Game ID is required"),
+  ...diaryEntryFields,
+});
+
+/**
+ * Diary entry update schema
+ */
+export const diaryEntryUpdateSchema = z.object(diaryEntryFields).partial()
+  .refine((data: Record<string, unknown>) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update"
+  });
+
+/**
+ * Fields of a game list
+ */
+const gameListFields = {
+  title: z.string()
+    .trim()
+    .min(1, "List title is required")
+    .max(LISTS.MAX_TITLE_LENGTH, `List title cannot exceed ${LISTS.MAX_TITLE_LENGTH} characters`),
+  description: z.string()
+    .max(LISTS.MAX_DESCRIPTION_LENGTH, `List description cannot exceed ${LISTS.MAX_DESCRIPTION_LENGTH} characters`)
+    .nullable()
+    .optional(),
+  isRanked: z.boolean().optional(),
+  isPublic: z.boolean().optional(),
+};
+
+/**
+ * Game list creation schema
+ */
+export const gameListSchema = z.object(gameListFields);
+
+/**
+ * Game list update schema
+ */
+export const gameListUpdateSchema = z.object(gameListFields).partial()
+  .refine((data: Record<string, unknown>) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update"
+  });
+
+/**
+ * Note attached to a game of a list
+ */
+const gameListNoteSchema = z.string()
+  .max(LISTS.MAX_NOTE_LENGTH, `Note cannot exceed ${LISTS.MAX_NOTE_LENGTH} characters`)
+  .nullable()
+  .optional();
+
+/**
+ * Position of a game in a list, from 1
+ */
+const gameListPositionSchema = z.number()
+  .int("Position must be a whole number")
+  .positive("Position must be at least 1")
+  .optional();
+
+/**
+ * Game list entry creation schema
+ */
+export const gameListEntrySchema = z.object({
+  gameId: z.number().int("Game ID must be a whole number").positive("Game ID is required"),
+  note: gameListNoteSchema,
+  position: gameListPositionSchema,
+});
+
+/**
+ * Game list entry update schema
+ */
+export const gameListEntryUpdateSchema = z.object({
+  note: gameListNoteSchema,
+  position: gameListPositionSchema,
+}).refine((data: Record<string, unknown>) => Object.keys(data).length > 0, {
+  message: "At least one field must be provided for update"
+});
+
+/**
+ * Game list reordering schema
+ */
+export const gameListOrderSchema = z.object({
+  entryIds: z.array(z.number().int("Entry IDs must be whole numbers").positive("Entry IDs must be positive"))
+    .min(1, "The new order cannot be empty")
+    .max(LISTS.MAX_ENTRIES, `A list cannot hold more than ${LISTS.MAX_ENTRIES} games`),
+});
+
+/**
+ * Game list collaborator schema
+ */
+export const gameListCollaboratorSchema = z.object({
+  userId: z.number().int("User ID must be a whole number").positive("User ID is required"),
+});
+
+/**
+ * Release year accepted by the game browser (query string)
+ */
+const browseYearSchema = z.coerce.number()
+  .int("Year must be a whole number")
+  .min(1950, "Year must be 1950 or later")
+  .max(2100, "Year must be 2100 or earlier")
+  .optional();
+
+/**
+ * Game browsing query schema (GET /games)
+ */
+export const gameBrowseQuerySchema = z.object({
+  yearFrom: browseYearSchema,
+  yearTo: browseYearSchema,
+  tag: z.string().trim().min(1, "Tag cannot be empty").optional(),
+  developer: z.string().trim().min(1, "Developer cannot be empty").optional(),
+  publisher: z.string().trim().min(1, "Publisher cannot be empty").optional(),
+  // Checked against the requested scale (?scale=) when converted to the internal scale
+  minRating: z.coerce.number()
+    .multipleOf(RATINGS.STEP, `Minimum rating must be a multiple of ${RATINGS.STEP}`)
+    .min(RATINGS.MIN_RATING, `Minimum rating must be at least ${RATINGS.MIN_RATING}`)
+    .max(RATINGS.MAX_RATING, `Minimum rating cannot exceed ${RATINGS.MAX_RATING}`)
+    .optional(),
+  minReviews: z.coerce.number()
+    .int("Minimum review count must be a whole number")
+    .min(0, "Minimum review count cannot be negative")
+    .optional(),
+  sort: z.enum(BROWSE.SORT_OPTIONS).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+}).refine((data: { yearFrom?: number; yearTo?: number }) =>
+  data.yearFrom === undefined || data.yearTo === undefined || data.yearFrom <= data.yearTo, {
+  message: "The first year cannot be after the last year"
+});
+
 /**
  * Game ID parameter schema
  */
@@ -0,0 +1,269 @@
+/**
+ * Chat WebSockets
+ *
+ * This file sets up the /ws/chat channel for the community chat.
+ * Anyone can listen to a room; sending and deleting messages requires a valid JWT,
+ * passed as the "token" query parameter or the authentication cookie. The token is checked
+ * again on every action, so logging out, revoked sessions, bans and expiry apply to open sockets.
+ *
+ * Rooms: /ws/chat (general room) or /ws/chat?gameId=<id> (a game's room)
+ */
+
+import { Application, Context } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import chatService, { ChatMessage, getChatRoom } from "../services/chat-service.ts";
+import gameService from "../services/game-service.ts";
+import { AUTH } from "../config/constants.ts";
+import { AuthUser, authenticateToken } from "../utils/auth.ts";
+import logger from "../utils/logger.ts";
+
+/**
+ * Connected chat client
+ */
+interface ChatClient {
+  socket: WebSocket;
+  user: AuthUser | null;
+}
+
+/**
+ * Access token of a socket, and the user it authenticated at connection time
+ */
+interface SocketCredentials {
+  token: string | null;
+  user: AuthUser | null;
+}
+
+/**
+ * Messages accepted from clients
+ */
+type ChatClientMessage =
+  | { type: "message"; content: string }
+  | { type: "delete"; messageId: number };
+
+/**
+ * Messages sent to clients
+ */
+type ChatServerMessage =
+  | { type: "system"; room: string; message: string; timestamp: string }
+  | { type: "message"; room: string; message: ChatMessage }
+  | { type: "message_deleted"; room: string; messageId: number }
+  | { type: "error"; message: string };
+
+// Active connections, grouped by room
+const chatRooms = new Map<string, Map<string, ChatClient>>();
+
+/**
+ * Register the /ws/chat endpoint on the application
+ * @param app - Oak application
+ */
+export function setupChatWebsockets(app: Application): void {
+  app.use(async (ctx, next) => {
+    if (ctx.request.url.pathname !== "/ws/chat") {
+      await next();
+      return;
+    }
+
+    if (!ctx.isUpgradable) {
+      ctx.throw(501);
+    }
+
+    // Resolve the room before upgrading so unknown games are rejected with a plain HTTP error
+    const gameIdParam = ctx.request.url.searchParams.get("gameId");
+    const gameId = gameIdParam ? parseInt(gameIdParam) : null;
+
+    if (gameId !== null && (isNaN(gameId) || !await gameService.getGameById(gameId))) {
+      ctx.throw(404, "Game not found");
+    }
+
+    const credentials = await authenticateSocket(ctx);
+    const user = credentials.user;
+    const room = getChatRoom(gameId);
+    const clientId = crypto.randomUUID();
+    const socket = ctx.upgrade();
+
+    socket.onopen = () => {
+      joinRoom(room, clientId, { socket, user });
+      sendToClient(socket, {
+        type: "system",
+        room,
+        message: user ? `Connected to ${room} as ${user.username}` : `Connected to ${room} (read-only)`,
+        timestamp: new Date().toISOString(),
+      });
+    };
+
+    socket.onmessage = (event) => {
+      handleClientMessage(room, gameId, socket, credentials, event.data).catch((error) => {
+        logger.error("Chat message handling failed", error);
+      });
+    };
+
+    socket.onclose = () => leaveRoom(room, clientId);
+
+    socket.onerror = () => {
+      logger.warn(`Chat WebSocket error for client ${clientId}`);
+      leaveRoom(room, clientId);
+    };
+  });
+}
+
+/**
+ * Broadcast a new message to the clients of its room
+ * @param message - Persisted message
+ */
+export function broadcastChatMessage(message: ChatMessage): void {
+  const room = getChatRoom(message.game_id ?? null);
+  broadcastToRoom(room, { type: "message", room, message });
+}
+
+/**
+ * Broadcast a message deletion to the clients of its room
+ * @param message - Deleted message
+ */
+export function broadcastChatMessageDeleted(message: ChatMessage): void {
+  const room = getChatRoom(message.game_id ?? null);
+  broadcastToRoom(room, { type: "message_deleted", room, messageId: message.id });
+}
+
+/**
+ * Authenticate a WebSocket request from its token, if any
+ * @param ctx - Oak context
+ * @returns Token and authenticated user, both null for anonymous listeners
+ */
+async function authenticateSocket(ctx: Context): Promise<SocketCredentials> {
+  const token = ctx.request.url.searchParams.get("token") ||
+    await ctx.cookies.get(AUTH.COOKIE_NAME);
+
+  if (!token) {
+    return { token: null, user: null };
+  }
+
+  try {
+    return { token, user: await authenticateToken(token) };
+  } catch {
+    logger.debug("Invalid token provided for chat WebSocket, connecting read-only");
+    return { token: null, user: null };
+  }
+}
+
+/**
+ * Handle a message sent by a client
+ * @param room - Room of the client
+ * @param gameId - Game of the room, or null for the general room
+ * @param socket - Client socket
+ * @param credentials - Token and user of the socket
+ * @param data - Raw message data
+ */
+async function handleClientMessage(
+  room: string,
+  gameId: number | null,
+  socket: WebSocket,
+  credentials: SocketCredentials,
+  data: unknown
+): Promise<void> {
+  let payload: ChatClientMessage;
+
+  try {
+    payload = JSON.parse(String(data));
+  } catch {
+    sendToClient(socket, { type: "error", message: "Messages must be JSON" });
+    return;
+  }
+
+  if (!credentials.token) {
+    sendToClient(socket, { type: "error", message: "Authentication required to chat" });
+    return;
+  }
+
+  // The session may have ended since the connection: the socket then stays read-only
+  let user: AuthUser;
+  try {
+    user = await authenticateToken(credentials.token);
+  } catch {
+    credentials.token = null;
+    credentials.user = null;
+    sendToClient(socket, { type: "error", message: "Session expired or revoked, reconnect to chat" });
+    return;
+  }
+
+  try {
+    if (payload.type === "message" && typeof payload.content === "string") {
+      const message = await chatService.createMessage(parseInt(user.id), payload.content, gameId);
+      broadcastChatMessage(message);
+    } else if (payload.type === "delete" && typeof payload.messageId === "number") {
+      const message = await chatService.deleteMessage(parseInt(user.id), payload.messageId);
+      broadcastChatMessageDeleted(message);
+    } else {
+      sendToClient(socket, { type: "error", message: "Unknown message type" });
+    }
+  } catch (error) {
+    // Service errors (validation, permissions) are reported to the sender only
+    sendToClient(socket, { type: "error", message: error.message });
+    logger.debug(`Chat action rejected in ${room}`, { error: error.message });
+  }
+}
+
+/**
+ * Add a client to a room
+ * @param room - Room name
+ * @param clientId - Client ID
+ * @param client - Client connection
+ */
+function joinRoom(room: string, clientId: string, client: ChatClient): void {
+  if (!chatRooms.has(room)) {
+    chatRooms.set(room, new Map());
+  }
+
+  chatRooms.get(room)!.set(clientId, client);
+  logger.debug(`Chat client ${clientId} joined ${room}`);
+}
+
+/**
+ * Remove a client from a room
+ * @param room - Room name
+ * @param clientId - Client ID
+ */
+function leaveRoom(room: string, clientId: string): void {
+  const clients = chatRooms.get(room);
+  if (!clients) {
+    return;
+  }
+
+  clients.delete(clientId);
+  if (clients.size === 0) {
+    chatRooms.delete(room);
+  }
+}
+
+/**
+ * Send a message to every open client of a room
+ * @param room - Room name
+ * @param message - Message to send
+ */
+function broadcastToRoom(room: string, message: ChatServerMessage): void {
+  const clients = chatRooms.get(room);
+  if (!clients) {
+    return;
+  }
+
+  for (const [clientId, client] of clients) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      sendToClient(client.socket, message);
+    } else if (client.socket.readyState >= WebSocket.CLOSING) {
+      leaveRoom(room, clientId);
+    }
+  }
+}
+
+/**
+ * Send a message to a single client, ignoring sockets that are no longer open
+ * @param socket - Client socket
+ * @param message - Message to send
+ */
+function sendToClient(socket: WebSocket, message: ChatServerMessage): void {
+  try {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  } catch (error) {
+    logger.error("Error sending chat message", error);
+  }
+}
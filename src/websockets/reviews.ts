@@ -1,62 +1,76 @@
 // reviews.ts - WebSockets setup for real-time review notifications
-import { Application } from "https://deno.land/x/oak@v17.1.4/mod.ts";
-import { verify, Payload } from "https://deno.land/x/djwt@v3.0.0/mod.ts";
-import { getJwtSecret } from "../routes/auth.ts";
+import { Application } from "https://deno.land/x/oak@v12.5.0/mod.ts";
+import { authenticateToken } from "../utils/auth.ts";
+import { ReviewNotification } from "../models/review.ts";
+import { REVIEW_NOTIFICATIONS } from "../config/constants.ts";
+import reviewEventService, {
+  isValidTopic,
+  matchesTopics,
+  NotificationOptions,
+  prepareNotification,
+} from "../services/review-event-service.ts";
+import { isSpoilerRevealRequested } from "../utils/spoilers.ts";
+import { getRatingScale } from "../utils/ratings.ts";
 
-// Store active WebSocket connections
-const reviewClients = new Map<string, WebSocket>();
-
-interface ReviewNotification {
-  type: string;
-  gameId: string;
-  review: {
-    id: string;
-    userId: number;
-    username: string;
-    rating: number;
-    content: string;
-    createdAt: string;
-  };
+// A connected client, the topics it subscribed to
+// and how it receives notifications (?reveal_spoilers=true, ?scale=10).
+// Topics: "all" (firehose), "game:<gameId>" or "user:<userId>"
+interface ReviewClient {
+  socket: WebSocket;
+  topics: Set<string>;
+  options: NotificationOptions;
+}
+
+// Subscription messages sent by clients
+interface SubscriptionMessage {
+  type: "subscribe" | "unsubscribe";
+  topics: string[];
 }
 
-// Extend the JWT payload interface
-interface JwtPayload extends Payload {
-  user_id: number;
-  username: string;
+// Optional reply of clients to the application-level pings
+interface PongMessage {
+  type: "pong";
 }
 
+// Store active WebSocket connections
+const reviewClients = new Map<string, ReviewClient>();
+
+// Heartbeat timer, shared by all connections
+let heartbeatTimer: number | null = null;
+
 export function setupReviewWebsockets(app: Application) {
+  // Every review mutation is published through the review event pipeline
+  reviewEventService.subscribe(broadcastReviewNotification);
+
+  // Ping clients regularly so idle connections survive proxies
+  if (heartbeatTimer === null) {
+    heartbeatTimer = setInterval(sendHeartbeats, REVIEW_NOTIFICATIONS.HEARTBEAT_INTERVAL_MS);
+  }
+
   // Setup WebSocket server for review notifications
   app.use(async (ctx, next) => {
     if (ctx.request.url.pathname === "/ws/reviews") {
       if (!ctx.isUpgradable) {
-        ctx.throw(501);
+        // Clients that cannot upgrade can use the Server-Sent Events stream instead
+        ctx.throw(501, "WebSocket upgrade unavailable, use /events/reviews");
         return;
       }
 
+      // Delivery options (an unsupported scale is rejected before the upgrade)
+      const options: NotificationOptions = {
+        revealSpoilers: isSpoilerRevealRequested(ctx.request.url.searchParams),
+        ratingScale: getRatingScale(ctx.request.url.searchParams)
+      };
+
       // Get token from query param (optional - we can allow anonymous connections for notifications)
       const token = ctx.request.url.searchParams.get("token");
-      let userId: number | null = null;
       let username: string | null = null;
 
       if (token) {
         try {
           // Verify JWT token if provided
-          const key = await getJwtSecret();
-          const keyData = new TextEncoder().encode(key);
-          const cryptoKey = await crypto.subtle.importKey(
-            "raw",
-            keyData,
-            { name: "HMAC", hash: "SHA-256" },
-            true,
-            ["verify"]
-          );
-          
-          const payload = await verify(token, cryptoKey);
-          // Type assertion with unknown intermediate step to avoid direct casting
-          const jwtPayload = payload as unknown as JwtPayload;
-          userId = jwtPayload.user_id;
-          username = jwtPayload.username;
+          const user = await authenticateToken(token);
+          username = user.username;
           console.log(`Authenticated WebSocket connection for user: ${username}`);
         } catch (err) {
           console.warn("Invalid token provided for WebSocket connection:", err);
@@ -65,27 +79,48 @@ export function setupReviewWebsockets(app: Application) {
       }
 
       try {
-        // Upgrade connection to WebSocket
-        const ws = await ctx.upgrade();
+        // Upgrade connection to WebSocket; dead peers are detected with protocol-level ping/pong frames,
+        // which every WebSocket client answers on its own
+        const ws = await ctx.upgrade({ idleTimeout: REVIEW_NOTIFICATIONS.HEARTBEAT_TIMEOUT_MS / 1000 });
         const clientId = crypto.randomUUID();
 
         console.log(`New review notification WebSocket connection: ${clientId}`);
 
-        // Store client connection
-        reviewClients.set(clientId, ws);
+        // Store client connection, with the topics requested in the URL (?topics=game:12,user:3),
+        // or the firehose like the Server-Sent Events stream
+        const client: ReviewClient = {
+          socket: ws,
+          topics: new Set(),
+          options
+        };
+        reviewClients.set(clientId, client);
+        updateSubscriptions(client, "subscribe", ctx.request.url.searchParams.get("topics")?.split(",") || []);
+        if (client.topics.size === 0) {
+          client.topics.add(REVIEW_NOTIFICATIONS.FIREHOSE_TOPIC);
+        }
 
-        // Send welcome message safely
-        try {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: "system",
-              message: "Connected to review notification system",
-              timestamp: new Date().toISOString()
-            }));
+        // Last event ID received before a reconnection (?since=42)
+        const since = parseInt(ctx.request.url.searchParams.get("since") || "");
+
+        // The socket is still connecting after the upgrade: greet and replay once it is open
+        ws.onopen = () => {
+          sendToClient(ws, {
+            type: "system",
+            message: "Connected to review notification system",
+            lastEventId: reviewEventService.getLastEventId(),
+            timestamp: new Date().toISOString()
+          });
+
+          // Send the events missed since the previous connection
+          if (!isNaN(since)) {
+            replayMissedEvents(client, since);
           }
-        } catch (error) {
-          console.error("Error sending welcome message:", error);
-        }
+        };
+
+        // Handle subscribe/unsubscribe and heartbeat messages
+        ws.onmessage = (event) => {
+          handleClientMessage(client, event.data);
+        };
 
         // Handle client disconnection
         ws.onclose = () => {
@@ -110,18 +145,116 @@ export function setupReviewWebsockets(app: Application) {
   });
 }
 
-// Broadcast review notification to all connected clients
+// Add or remove topics from a client's subscriptions
+function updateSubscriptions(client: ReviewClient, action: SubscriptionMessage["type"], topics: string[]) {
+  for (const topic of topics.map(topic => topic.trim())) {
+    if (!isValidTopic(topic)) {
+      continue;
+    }
+
+    if (action === "unsubscribe") {
+      client.topics.delete(topic);
+    } else if (client.topics.size < REVIEW_NOTIFICATIONS.MAX_TOPICS_PER_CLIENT) {
+      client.topics.add(topic);
+    }
+  }
+}
+
+// Replay the buffered events a reconnecting client missed, then tell it where the replay ends.
+// "complete: false" means some events were lost and the client should reload its data.
+function replayMissedEvents(client: ReviewClient, since: number) {
+  const { events, complete } = reviewEventService.getEventsSince(since);
+  let replayed = 0;
+
+  for (const notification of events) {
+    if (matchesTopics(notification, client.topics)) {
+      sendToClient(client.socket, { ...prepareNotification(notification, client.options) });
+      replayed++;
+    }
+  }
+
+  sendToClient(client.socket, {
+    type: "replay_complete",
+    since,
+    lastEventId: reviewEventService.getLastEventId(),
+    complete
+  });
+  console.log(`Replayed ${replayed} review notifications since event ${since}`);
+}
+
+// Ping every client; connections that stopped answering are closed by the idle timeout
+function sendHeartbeats() {
+  const timestamp = new Date().toISOString();
+
+  for (const client of reviewClients.values()) {
+    sendToClient(client.socket, { type: "ping", timestamp });
+  }
+}
+
+// Handle a client message: heartbeat replies, or subscribe/unsubscribe requests
+// acknowledged with the resulting subscriptions
+function handleClientMessage(client: ReviewClient, data: unknown) {
+  let message: SubscriptionMessage | PongMessage;
+
+  try {
+    message = JSON.parse(String(data));
+  } catch {
+    sendToClient(client.socket, { type: "error", message: "Messages must be JSON" });
+    return;
+  }
+
+  // Heartbeat replies need no answer
+  if (message.type === "pong") {
+    return;
+  }
+
+  if ((message.type !== "subscribe" && message.type !== "unsubscribe") || !Array.isArray(message.topics)) {
+    sendToClient(client.socket, {
+      type: "error",
+      message: "Expected {\"type\": \"subscribe\" | \"unsubscribe\", \"topics\": [...]}"
+    });
+    return;
+  }
+
+  updateSubscriptions(client, message.type, message.topics.map(String));
+  sendToClient(client.socket, { type: "subscriptions", topics: [...client.topics] });
+}
+
+// Send a message to a single client if its connection is open
+function sendToClient(socket: WebSocket, message: Record<string, unknown>) {
+  try {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  } catch (error) {
+    console.error("Error sending message to WebSocket client:", error);
+  }
+}
+
+// Send a review notification to the clients subscribed to one of its topics
 export function broadcastReviewNotification(notification: ReviewNotification) {
-  const messageString = JSON.stringify(notification);
-  console.log(`Broadcasting review notification to ${reviewClients.size} clients`);
+  // Serialize once per combination of client options rather than once per client
+  const messages = new Map<string, string>();
   
   // Keep track of clients to remove (those with closed connections)
   const clientsToRemove: string[] = [];
+  let recipients = 0;
   
-  for (const [clientId, client] of reviewClients.entries()) {
+  for (const [clientId, reviewClient] of reviewClients.entries()) {
+    if (!matchesTopics(notification, reviewClient.topics)) {
+      continue;
+    }
+
+    const client = reviewClient.socket;
+
     try {
       if (client.readyState === WebSocket.OPEN) {
-        client.send(messageString);
+        const key = `${reviewClient.options.revealSpoilers}:${reviewClient.options.ratingScale}`;
+        if (!messages.has(key)) {
+          messages.set(key, JSON.stringify(prepareNotification(notification, reviewClient.options)));
+        }
+        client.send(messages.get(key)!);
+        recipients++;
       } else if (client.readyState === WebSocket.CLOSED || client.readyState === WebSocket.CLOSING) {
         // Mark for removal if connection is closed or closing
         clientsToRemove.push(clientId);
@@ -137,4 +270,6 @@ export function broadcastReviewNotification(notification: ReviewNotification) {
     reviewClients.delete(clientId);
     console.log(`Removed closed WebSocket client: ${clientId}`);
   }
+
+  console.log(`Sent ${notification.type} notification for game ${notification.gameId} to ${recipients} clients`);
 } 
\ No newline at end of file